@@ -1,41 +1,126 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { Layer, Shape, ToolMode, BaseLayer, GeoPoint } from './types';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { Layer, Shape, ToolMode, BaseLayer, GeoPoint, StoredProject, ProjectSummary, SnapSettings, UnitSettings, LayerPricing, DerivedQuantity, LayerGroup, GeocoderSettings, TileSourceConfig } from './types';
 import LayerManager from './components/LayerManager';
 import MapCanvas from './components/MapCanvas';
 import AnalysisModal from './components/AnalysisModal';
+import ExportModal from './components/ExportModal';
+import ProjectSwitcher, { SaveStatus } from './components/ProjectSwitcher';
+import SnapControl from './components/SnapControl';
+import UnitsModal from './components/UnitsModal';
+import CostPanel from './components/CostPanel';
+import DerivedQuantityModal from './components/DerivedQuantityModal';
+import ShapePropertiesPanel from './components/ShapePropertiesPanel';
+import SelectionBar from './components/SelectionBar';
+import AddressSearch from './components/AddressSearch';
+import TileSourcesModal from './components/TileSourcesModal';
+import { useHistory } from './hooks/useHistory';
+import { generateId } from './services/ids';
 import { analyzeMeasurements } from './services/geminiService';
-import { MousePointer2, PenTool, Ruler, Calculator, AlertTriangle, MapPin, Upload, Search, Trash2 } from 'lucide-react';
-import * as turf from '@turf/turf';
+import { PROJECT_FILE_EXTENSION, ProjectFileError, parseProjectFile, serializeProject } from './services/projectFile';
+import { downloadFile, toSafeFilename } from './services/download';
+import { DEFAULT_MAP_SETTINGS, createProject, deleteProject, getLastProjectId, listProjects, loadProject, saveProject, setLastProjectId } from './services/projectStorage';
+import { SlidersHorizontal, MousePointer2, PenTool, Ruler, RectangleHorizontal, Circle, Route, Calculator, AlertTriangle, MapPin, Upload, Search, Trash2, Undo2, Redo2, Download } from 'lucide-react';
+import { computeMeasuredValue, validateHole } from './services/geometry';
+import { GeoJsonError, parseGeoJson } from './services/geojson';
+import { KmlError, formatImportSummary, parseKml, readKmlFile } from './services/kmlParser';
+import { loadSnapSettings, saveSnapSettings } from './services/snapping';
+import { DEFAULT_UNIT_SETTINGS, layerTotal, resolveUnitSettings } from './services/units';
+import { computeCostSummary } from './services/costs';
+import { ShapeProperties, cleanProperties } from './services/attributes';
+import { GeometryOperation, GeometryOperationError, applyGeometryOperation } from './services/geometryOps';
+import { LayerDropTarget, moveLayer, nestGroup, orderLayers, removeGroup } from './services/layerGroups';
+import { LOCATION_SOURCE_LABELS, formatDms, formatLatLng, parseLocation } from './services/coordinates';
+import { GeocodeResult, loadGeocoderSettings, saveGeocoderSettings } from './services/geocoding';
+import { BUILT_IN_TILE_SOURCES, loadCustomTileSources, resolveBaseSource, saveCustomTileSources, snapshotTiles } from './services/baseLayers';
+import { MbTilesArchive, MbTilesError, openMbTiles } from './services/mbtiles';
 
-// Safe ID Generator
-const generateId = () => {
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-        return crypto.randomUUID();
-    }
-    return `id-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+const AUTOSAVE_DELAY_MS = 800;
+
+// Drawing tools producing polygons, besides the free polygon
+const SURFACE_TOOLS = [
+  { mode: ToolMode.DRAW_RECTANGLE, title: 'Rectangle (base puis largeur)', Icon: RectangleHorizontal },
+  { mode: ToolMode.DRAW_CIRCLE, title: 'Cercle (centre puis rayon)', Icon: Circle },
+  { mode: ToolMode.DRAW_CORRIDOR, title: 'Corridor (axe puis largeur)', Icon: Route }
+];
+
+// Copy of a shape fitted to a measurement layer: the layer's type decides polygon or polyline
+const adaptShapeToLayer = (shape: Shape, layer: Layer): Shape => {
+  const type = layer.type === 'length' ? 'polyline' : 'polygon';
+  // Inner rings only make sense on surfaces
+  const holes = type === 'polygon' ? shape.holes : undefined;
+  return {
+    ...shape,
+    id: generateId(),
+    layerId: layer.id,
+    type,
+    holes,
+    measuredValue: computeMeasuredValue(type, shape.points, holes),
+    name: shape.name === "Sans nom" ? `Import ${layer.name}` : shape.name
+  };
 };
 
 const App: React.FC = () => {
   // Project State
-  const [layers, setLayers] = useState<Layer[]>([
-    { id: '1', name: 'Murs', color: '#ef4444', type: 'surface', category: 'measurement', isVisible: true, opacity: 0.5 },
-  ]);
+  const [layers, setLayers] = useState<Layer[]>([]);
   const [shapes, setShapes] = useState<Shape[]>([]);
-  const [activeLayerId, setActiveLayerId] = useState<string | null>('1');
-  const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null);
+  const [groups, setGroups] = useState<LayerGroup[]>([]);
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+  const [units, setUnits] = useState<UnitSettings>(DEFAULT_UNIT_SETTINGS);
+  const [selectedShapeIds, setSelectedShapeIds] = useState<string[]>([]);
+  // Single-shape tools (vertex editing, properties, holes, operations) need a lone selection
+  const selectedShapeId = selectedShapeIds.length === 1 ? selectedShapeIds[0] : null;
+  const setSelectedShapeId = (id: string | null) => setSelectedShapeIds(id ? [id] : []);
   const [toolMode, setToolMode] = useState<ToolMode>(ToolMode.SELECT);
   
   // Map Config State
-  const [baseLayer, setBaseLayer] = useState<BaseLayer>('plan');
+  const [baseLayer, setBaseLayer] = useState<BaseLayer>(DEFAULT_MAP_SETTINGS.baseLayer);
+  const [overlays, setOverlays] = useState<string[]>([]);
+  // MBTiles files opened in this session, by source id
+  const [mbTiles, setMbTiles] = useState<Record<string, MbTilesArchive>>({});
   const [mapCenter, setMapCenter] = useState<GeoPoint | null>(null);
-  const [mapUrl, setMapUrl] = useState('');
+  const [mapZoom, setMapZoom] = useState(DEFAULT_MAP_SETTINGS.zoom);
+  // Points to fit in the view (zoom to shape); a new array triggers a new flight
+  const [focusPoints, setFocusPoints] = useState<GeoPoint[] | null>(null);
+  // Temporary marker on the last searched location
+  const [locationMarker, setLocationMarker] = useState<{ point: GeoPoint; label: string } | null>(null);
+
+  // Drawing preferences (per browser, not per project)
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(loadSnapSettings);
+  const [geocoderSettings, setGeocoderSettings] = useState<GeocoderSettings>(loadGeocoderSettings);
+  const [customTileSources, setCustomTileSources] = useState<TileSourceConfig[]>(loadCustomTileSources);
+  const [mapView, setMapView] = useState({ center: DEFAULT_MAP_SETTINGS.center, zoom: DEFAULT_MAP_SETTINGS.zoom });
+  const [locationInput, setLocationInput] = useState('');
+  const [isLocationFocused, setIsLocationFocused] = useState(false);
+
+  // Persistence State
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [currentProject, setCurrentProject] = useState<StoredProject | null>(null);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const saveTimerRef = useRef<number | null>(null);
+  // StrictMode runs effects twice in development: the first launch must create a single project
+  const hasBootstrappedRef = useRef(false);
 
   // AI Analysis State
   const [isAnalysisOpen, setIsAnalysisOpen] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState('');
 
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isUnitsOpen, setIsUnitsOpen] = useState(false);
+  const [isTileSourcesOpen, setIsTileSourcesOpen] = useState(false);
+  const [derivedLayerId, setDerivedLayerId] = useState<string | null>(null);
+
+  // Undo/Redo History (layers + shapes + groups)
+  const restoreSnapshot = useCallback((snapshot: { layers: Layer[]; shapes: Shape[]; groups: LayerGroup[] }) => {
+    setLayers(snapshot.layers);
+    setShapes(snapshot.shapes);
+    setGroups(snapshot.groups);
+    setActiveLayerId(prev => prev && snapshot.layers.some(l => l.id === prev) ? prev : null);
+    setSelectedShapeIds(prev => prev.filter(id => snapshot.shapes.some(s => s.id === id)));
+  }, []);
+  const history = useHistory({ layers, shapes, groups }, restoreSnapshot);
+
   // --- Effects ---
   
   // Handle keyboard events (Global)
@@ -44,14 +129,274 @@ const App: React.FC = () => {
         // Ignore if typing in input fields
         if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
 
+        // Undo / Redo
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) history.redo();
+            else history.undo();
+            return;
+        }
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+            e.preventDefault();
+            history.redo();
+            return;
+        }
+
         // Delete Shape
-        if ((e.key === 'Delete' || e.key === 'Backspace') && selectedShapeId) {
-            handleDeleteShape(selectedShapeId);
+        if ((e.key === 'Delete' || e.key === 'Backspace') && selectedShapeIds.length > 0) {
+            handleDeleteShapes(selectedShapeIds);
         }
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedShapeId, shapes]);
+  }, [selectedShapeIds, shapes, history.undo, history.redo]);
+
+  // --- Persistence ---
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.error("Erreur lecture projets:", err);
+    }
+  }, []);
+
+  const applyProject = (project: StoredProject) => {
+    setCurrentProject(project);
+    setLayers(project.state.layers);
+    setShapes(project.state.shapes);
+    setGroups(project.state.groups || []);
+    setActiveLayerId(project.state.activeLayerId);
+    setUnits(project.state.units || DEFAULT_UNIT_SETTINGS);
+    setSelectedShapeId(null);
+    setToolMode(ToolMode.SELECT);
+    setBaseLayer(project.map.baseLayer);
+    setOverlays(project.map.overlays || []);
+    setMapView({ center: project.map.center, zoom: project.map.zoom });
+    setMapCenter({ ...project.map.center });
+    setMapZoom(project.map.zoom);
+    setLastProjectId(project.id);
+    history.reset();
+  };
+
+  // Snapshot of the in-memory project, as it should be written to storage
+  const buildCurrentProject = (): StoredProject | null => {
+    if (!currentProject) return null;
+    return {
+      ...currentProject,
+      updatedAt: Date.now(),
+      state: { layers, shapes, activeLayerId, units, groups },
+      map: { center: mapView.center, zoom: mapView.zoom, baseLayer, overlays }
+    };
+  };
+
+  // False when the project could not be written
+  const persistProject = async (project: StoredProject): Promise<boolean> => {
+    setSaveStatus('saving');
+    try {
+      await saveProject(project);
+      setSaveStatus('saved');
+      refreshProjects();
+      return true;
+    } catch (err) {
+      console.error("Erreur sauvegarde projet:", err);
+      setSaveStatus('error');
+      return false;
+    }
+  };
+
+  // Write pending changes immediately (before switching project); false when they could not be written
+  const flushSave = async (): Promise<boolean> => {
+    if (saveTimerRef.current === null) return true;
+    window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = null;
+    const snapshot = buildCurrentProject();
+    return snapshot ? persistProject(snapshot) : true;
+  };
+
+  // Switching project replaces the in-memory state: the switch stops when pending changes were not saved
+  const flushBeforeSwitch = async () => {
+    if (await flushSave()) return true;
+    alert("Impossible d'enregistrer le projet en cours : le changement de projet est annulé pour ne pas perdre vos modifications.");
+    return false;
+  };
+
+  // The debounced save would be lost when the tab is closed: write it as soon as the page is hidden
+  const flushSaveRef = useRef(flushSave);
+  flushSaveRef.current = flushSave;
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flushSaveRef.current();
+    };
+    const handlePageHide = () => flushSaveRef.current();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }, []);
+
+  // Initial load: reopen the last project, or create a first one
+  useEffect(() => {
+    if (hasBootstrappedRef.current) return;
+    hasBootstrappedRef.current = true;
+    const bootstrap = async () => {
+      try {
+        const summaries = await listProjects();
+        const lastId = getLastProjectId();
+        const targetId = summaries.find(p => p.id === lastId)?.id || summaries[0]?.id;
+        const existing = targetId ? await loadProject(targetId) : null;
+        const project = existing || createProject('Projet 1');
+        if (!existing) await saveProject(project);
+        applyProject(project);
+        await refreshProjects();
+      } catch (err) {
+        console.error("Erreur chargement projet:", err);
+        // Storage unavailable: work in memory only
+        applyProject(createProject('Projet 1'));
+        setSaveStatus('error');
+      }
+    };
+    bootstrap();
+  }, []);
+
+  // Autosave (debounced)
+  useEffect(() => {
+    if (!currentProject) return;
+    if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = window.setTimeout(() => {
+      saveTimerRef.current = null;
+      const snapshot = buildCurrentProject();
+      if (snapshot) persistProject(snapshot);
+    }, AUTOSAVE_DELAY_MS);
+    return () => {
+      if (saveTimerRef.current !== null) window.clearTimeout(saveTimerRef.current);
+    };
+  }, [layers, shapes, groups, activeLayerId, units, baseLayer, overlays, mapView]);
+
+  const handleOpenProject = async (id: string) => {
+    if (id === currentProject?.id) return;
+    if (!await flushBeforeSwitch()) return;
+    let project;
+    try {
+      project = await loadProject(id);
+    } catch (err) {
+      console.error("Erreur chargement projet:", err);
+      alert("Impossible d'ouvrir le projet.");
+      return;
+    }
+    if (project) applyProject(project);
+    else alert("Projet introuvable.");
+  };
+
+  const handleCreateProject = async () => {
+    const name = window.prompt("Nom du nouveau projet :", `Projet ${projects.length + 1}`);
+    if (name === null) return;
+    if (!await flushBeforeSwitch()) return;
+    const project = createProject(name.trim() || `Projet ${projects.length + 1}`, undefined, { ...DEFAULT_MAP_SETTINGS, center: mapView.center, zoom: mapView.zoom });
+    await persistProject(project);
+    applyProject(project);
+  };
+
+  const handleRenameProject = async (id: string) => {
+    const summary = projects.find(p => p.id === id);
+    if (!summary) return;
+    const name = window.prompt("Renommer le projet :", summary.name);
+    if (name === null || !name.trim()) return;
+    if (id === currentProject?.id) {
+      setCurrentProject({ ...currentProject, name: name.trim() });
+      setProjects(prev => prev.map(p => p.id === id ? { ...p, name: name.trim() } : p));
+      const snapshot = buildCurrentProject();
+      if (snapshot) await persistProject({ ...snapshot, name: name.trim() });
+      return;
+    }
+    let project;
+    try {
+      project = await loadProject(id);
+    } catch (err) {
+      console.error("Erreur chargement projet:", err);
+      alert("Impossible de renommer le projet.");
+      return;
+    }
+    if (project) await persistProject({ ...project, name: name.trim(), updatedAt: Date.now() });
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    if (!await flushBeforeSwitch()) return;
+    let source;
+    try {
+      source = id === currentProject?.id ? buildCurrentProject() : await loadProject(id);
+    } catch (err) {
+      console.error("Erreur chargement projet:", err);
+      alert("Impossible de dupliquer le projet.");
+      return;
+    }
+    if (!source) return;
+    const copy = createProject(`${source.name} (copie)`, structuredClone(source.state), source.map);
+    await persistProject(copy);
+    applyProject(copy);
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const summary = projects.find(p => p.id === id);
+    if (!summary || !window.confirm(`Supprimer définitivement le projet "${summary.name}" ?`)) return;
+    try {
+      await deleteProject(id);
+    } catch (err) {
+      console.error("Erreur suppression projet:", err);
+      alert("Impossible de supprimer le projet.");
+      return;
+    }
+    if (id === currentProject?.id) {
+      if (saveTimerRef.current !== null) {
+        window.clearTimeout(saveTimerRef.current);
+        saveTimerRef.current = null;
+      }
+      const remaining = projects.filter(p => p.id !== id);
+      try {
+        const next = remaining.length > 0 ? await loadProject(remaining[0].id) : null;
+        const project = next || createProject('Projet 1');
+        if (!next) await saveProject(project);
+        applyProject(project);
+      } catch (err) {
+        console.error("Erreur chargement projet:", err);
+        // Storage unavailable: work in memory only
+        applyProject(createProject('Projet 1'));
+        setSaveStatus('error');
+      }
+    }
+    await refreshProjects();
+  };
+
+  const handleExportProject = () => {
+    const snapshot = buildCurrentProject();
+    if (!snapshot) return;
+    downloadFile(serializeProject(snapshot), `${toSafeFilename(snapshot.name)}${PROJECT_FILE_EXTENSION}`, 'application/json');
+  };
+
+  const handleImportProjectFile = async (file: File) => {
+    let imported;
+    try {
+      imported = parseProjectFile(await file.text());
+    } catch (err) {
+      if (err instanceof ProjectFileError) {
+        alert(`Import impossible : ${err.message}`);
+      } else {
+        console.error(err);
+        alert("Import impossible : le fichier n'a pas pu être lu.");
+      }
+      return;
+    }
+    if (!await flushBeforeSwitch()) return;
+    const project = createProject(imported.name, imported.state, imported.map);
+    await persistProject(project);
+    applyProject(project);
+  };
+
+  const handleViewChange = useCallback((center: GeoPoint, zoom: number) => {
+    setMapView({ center, zoom });
+  }, []);
 
   // --- Actions ---
 
@@ -65,262 +410,465 @@ const App: React.FC = () => {
       isVisible: true,
       opacity: type === 'surface' ? 0.5 : 1.0
     };
+    history.record(`Nouveau calque "${name}"`);
     setLayers(prev => [...prev, newLayer]);
     setActiveLayerId(newLayer.id);
     setToolMode(type === 'surface' ? ToolMode.DRAW_POLYGON : ToolMode.DRAW_LINE);
     setSelectedShapeId(null);
   };
 
+  // No confirmation: the deletion can be undone
   const handleDeleteLayer = (id: string) => {
-    if (window.confirm("Êtes-vous sûr de vouloir supprimer ce calque et toutes ses mesures ?")) {
-        setLayers(prev => prev.filter(l => l.id !== id));
-        setShapes(prev => prev.filter(s => s.layerId !== id));
-        if (activeLayerId === id) setActiveLayerId(null);
+    const layer = layers.find(l => l.id === id);
+    if (!layer) return;
+    history.record(`Supprimer le calque "${layer.name}"`);
+    setLayers(prev => prev.filter(l => l.id !== id));
+    setShapes(prev => prev.filter(s => s.layerId !== id));
+    if (activeLayerId === id) setActiveLayerId(null);
+    setSelectedShapeIds(prev => prev.filter(shapeId => !shapes.some(s => s.id === shapeId && s.layerId === id)));
+  };
+
+  const handleRenameLayer = (id: string, name: string) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer || layer.name === name) return;
+    history.record(`Renommer le calque "${layer.name}"`);
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, name } : l));
+  };
+
+  const handleToggleVisibility = (id: string) => {
+    history.record('Visibilité du calque');
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, isVisible: !l.isVisible } : l));
+  };
+  const handleAddGroup = (parentId: string | null) => {
+    const name = window.prompt("Nom du groupe (lot) :", `Lot ${groups.length + 1}`);
+    if (name === null || !name.trim()) return;
+    history.record(`Nouveau groupe "${name.trim()}"`);
+    setGroups(prev => [...prev, { id: generateId(), name: name.trim(), isVisible: true, ...(parentId ? { parentId } : {}) }]);
+  };
+
+  const handleRenameGroup = (id: string, name: string) => {
+    const group = groups.find(g => g.id === id);
+    if (!group || group.name === name) return;
+    history.record(`Renommer le groupe "${group.name}"`);
+    setGroups(prev => prev.map(g => g.id === id ? { ...g, name } : g));
+  };
+
+  // Deleting a group keeps its content: layers and sub-groups move up one level
+  const handleDeleteGroup = (id: string) => {
+    const group = groups.find(g => g.id === id);
+    if (!group) return;
+    history.record(`Supprimer le groupe "${group.name}"`);
+    const result = removeGroup(layers, groups, id);
+    setLayers(result.layers);
+    setGroups(result.groups);
+  };
+
+  const handleToggleGroupVisibility = (id: string) => {
+    history.record('Visibilité du groupe');
+    setGroups(prev => prev.map(g => g.id === id ? { ...g, isVisible: !g.isVisible } : g));
+  };
+
+  const handleMoveLayer = (id: string, target: LayerDropTarget) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer) return;
+    history.record(`Déplacer le calque "${layer.name}"`);
+    setLayers(prev => moveLayer(prev, id, target));
+  };
+
+  const handleMoveGroup = (id: string, parentId: string | null) => {
+    const group = groups.find(g => g.id === id);
+    if (!group || (group.parentId ?? null) === parentId) return;
+    const next = nestGroup(groups, id, parentId);
+    if (!next) {
+        alert("Un groupe ne peut pas être placé dans l'un de ses sous-groupes.");
+        return;
     }
+    history.record(`Déplacer le groupe "${group.name}"`);
+    setGroups(next);
+  };
+
+  const handleUpdateLayerUnits = (id: string, layerUnits: Partial<UnitSettings> | undefined) => {
+    history.record('Unités du calque');
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, units: layerUnits } : l));
+  };
+
+  const handleUpdateLayerDerived = (id: string, derived: DerivedQuantity | undefined) => {
+    history.record('Quantité dérivée');
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, derived } : l));
+  };
+
+  const handleUpdateLayerPricing = (id: string, pricing: LayerPricing | undefined) => {
+    history.record('Prix du calque', `pricing-${id}`);
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, pricing } : l));
   };
 
-  const handleToggleVisibility = (id: string) => setLayers(prev => prev.map(l => l.id === id ? { ...l, isVisible: !l.isVisible } : l));
-  const handleUpdateOpacity = (id: string, opacity: number) => setLayers(prev => prev.map(l => l.id === id ? { ...l, opacity } : l));
+  const handleUpdateOpacity = (id: string, opacity: number) => {
+    history.record('Opacité du calque', `opacity-${id}`);
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, opacity } : l));
+  };
   
   const handleSetActiveLayer = (id: string) => {
     setActiveLayerId(id);
     const layer = layers.find(l => l.id === id);
     if (layer) {
-      setToolMode(layer.type === 'surface' ? ToolMode.DRAW_POLYGON : ToolMode.DRAW_LINE);
+      // Keep the current surface tool when it still applies
+      setToolMode(prev => layer.type !== 'surface' ? ToolMode.DRAW_LINE : SURFACE_TOOLS.some(t => t.mode === prev) ? prev : ToolMode.DRAW_POLYGON);
       setSelectedShapeId(null); 
     }
   };
 
   const handleAddShape = (shape: Shape) => {
+    history.record(`Ajouter "${shape.name}"`);
     setShapes(prev => [...prev, shape]);
   };
 
+  // No confirmation: the deletion can be undone
   const handleDeleteShape = (id: string) => {
-    if (window.confirm("Supprimer cette forme ?")) {
-        setShapes(prev => prev.filter(s => s.id !== id));
-        if (selectedShapeId === id) setSelectedShapeId(null);
+    const shape = shapes.find(s => s.id === id);
+    if (!shape) return;
+    history.record(`Supprimer "${shape.name}"`);
+    setShapes(prev => prev.filter(s => s.id !== id));
+    setSelectedShapeIds(prev => prev.filter(s => s !== id));
+  };
+
+  const handleDeleteShapes = (ids: string[]) => {
+    if (ids.length === 1) {
+        handleDeleteShape(ids[0]);
+        return;
+    }
+    history.record(`Supprimer ${ids.length} formes`);
+    setShapes(prev => prev.filter(s => !ids.includes(s.id)));
+    setSelectedShapeIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  // Moving keeps the shape ids; points cannot be measured and stay where they are
+  const handleMoveShapes = (ids: string[], layerId: string, copy: boolean) => {
+    const targetLayer = layers.find(l => l.id === layerId);
+    if (!targetLayer || targetLayer.category !== 'measurement') return;
+    const sources = shapes.filter(s => ids.includes(s.id) && s.type !== 'point' && (copy || s.layerId !== layerId));
+    if (sources.length === 0) return;
+    const results = sources.map(s => copy ? adaptShapeToLayer(s, targetLayer) : { ...adaptShapeToLayer(s, targetLayer), id: s.id });
+    history.record(`${copy ? 'Copier' : 'Déplacer'} ${sources.length} forme${sources.length > 1 ? 's' : ''} vers "${targetLayer.name}"`);
+    setShapes(prev => copy ? [...prev, ...results] : prev.map(s => results.find(r => r.id === s.id) || s));
+    setSelectedShapeIds(results.map(s => s.id));
+  };
+
+  const handleBeginShapeEdit = (id: string) => {
+    const shape = shapes.find(s => s.id === id);
+    if (shape) history.record(`Modifier "${shape.name}"`);
+  };
+
+  // Geometry edits (vertex drag/insert/remove), recorded once via handleBeginShapeEdit
+  const handleUpdateShapePoints = (id: string, points: GeoPoint[]) => {
+    setShapes(prev => prev.map(s => s.id === id ? { ...s, points, measuredValue: computeMeasuredValue(s.type, points, s.holes) } : s));
+  };
+
+  const handleAddHole = (id: string, hole: GeoPoint[]) => {
+    const shape = shapes.find(s => s.id === id);
+    setToolMode(ToolMode.SELECT);
+    if (!shape || shape.type !== 'polygon') return;
+    const holes = shape.holes || [];
+    const error = validateHole(shape.points, holes, hole);
+    if (error) {
+        alert(error);
+        return;
     }
+    history.record(`Percer "${shape.name}"`);
+    const newHoles = [...holes, hole];
+    setShapes(prev => prev.map(s => s.id === id ? { ...s, holes: newHoles, measuredValue: computeMeasuredValue(s.type, s.points, newHoles) } : s));
   };
 
-  const handleSelectShape = (id: string | null) => {
-    setSelectedShapeId(id);
+  const handleRenameShape = (id: string, name: string) => {
+    const shape = shapes.find(s => s.id === id);
+    if (!shape || shape.name === name) return;
+    history.record(`Renommer "${shape.name}"`);
+    setShapes(prev => prev.map(s => s.id === id ? { ...s, name } : s));
   };
 
-  // ROBUST KML CONVERSION
-  const handleConvertShape = (shapeId: string) => {
-      const shape = shapes.find(s => s.id === shapeId);
+  const handleUpdateShapeProperties = (id: string, properties: Partial<ShapeProperties>) => {
+    const shape = shapes.find(s => s.id === id);
+    if (!shape) return;
+    history.record(`Modifier "${shape.name}"`);
+    const cleaned = cleanProperties(properties);
+    setShapes(prev => prev.map(s => s.id === id ? { ...s, ...cleaned } : s));
+  };
+
+  const handleChangeSnapSettings = (settings: SnapSettings) => {
+    setSnapSettings(settings);
+    saveSnapSettings(settings);
+  };
+
+  const handleFocusShape = (id: string) => {
+    const shape = shapes.find(s => s.id === id);
+    if (shape && shape.points.length > 0) setFocusPoints([...shape.points]);
+  };
+
+  // Ctrl/Shift-click toggles a shape in the selection
+  const handleSelectShape = (id: string | null, additive = false) => {
+    if (!id) setSelectedShapeIds([]);
+    else if (additive) setSelectedShapeIds(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+    else setSelectedShapeIds([id]);
+  };
+
+  const handleSelectShapes = (ids: string[], additive: boolean) => {
+    setSelectedShapeIds(prev => additive ? [...new Set([...prev, ...ids])] : ids);
+  };
+
+  // Hole and cut line drawing need a selected shape (it may disappear through undo or deletion)
+  useEffect(() => {
+    if ((toolMode === ToolMode.DRAW_HOLE || toolMode === ToolMode.DRAW_SPLIT) && !shapes.some(s => s.id === selectedShapeId)) setToolMode(ToolMode.SELECT);
+  }, [toolMode, shapes, selectedShapeId]);
+
+  // Results land in the active measurement layer and keep the source's descriptive properties
+  const handleGeometryOperation = (operation: GeometryOperation) => {
+    setToolMode(ToolMode.SELECT);
+    const source = shapes.find(s => s.id === operation.shapeId);
+    const targetLayer = layers.find(l => l.id === activeLayerId);
+    if (!source) return;
+    if (!targetLayer || targetLayer.category !== 'measurement') {
+        alert("Sélectionnez d'abord un calque de métré dans la colonne de gauche pour y placer le résultat.");
+        return;
+    }
+
+    let result;
+    try {
+        result = applyGeometryOperation(operation, shapes);
+    } catch (err) {
+        if (err instanceof GeometryOperationError) {
+            alert(err.message);
+            return;
+        }
+        throw err;
+    }
+
+    const expectedType = targetLayer.type === 'surface' ? 'polygon' : 'polyline';
+    if (result.parts.some(part => part.type !== expectedType)) {
+        alert(expectedType === 'polygon'
+            ? "Le résultat est une ligne : sélectionnez un calque de longueur pour l'y placer."
+            : "Le résultat est une surface : sélectionnez un calque de surface pour l'y placer.");
+        return;
+    }
+
+    const baseName = operation.kind === 'offset' ? `${source.name} (décalé)` : source.name;
+    const newShapes: Shape[] = result.parts.map((part, index) => ({
+        ...source,
+        id: generateId(),
+        name: result.parts.length > 1 ? `${baseName} (${index + 1})` : baseName,
+        type: part.type,
+        points: part.points,
+        holes: part.holes,
+        layerId: targetLayer.id,
+        measuredValue: computeMeasuredValue(part.type, part.points, part.holes)
+    }));
+
+    // Reference shapes (KML / GeoJSON) can be operands but stay untouched
+    const referenceLayerIds = layers.filter(l => l.category !== 'measurement').map(l => l.id);
+    const removedIds = result.removedIds.filter(id => !shapes.some(s => s.id === id && referenceLayerIds.includes(s.layerId)));
+    history.record(`${result.label} "${source.name}"`);
+    setShapes(prev => [...prev.filter(s => !removedIds.includes(s.id)), ...newShapes]);
+    setSelectedShapeId(newShapes[0].id);
+  };
+
+  // ROBUST KML CONVERSION: imported shapes move to the active measurement layer, adopting its type
+  const handleConvertShapes = (shapeIds: string[]) => {
+      const sources = shapes.filter(s => shapeIds.includes(s.id));
       const targetLayer = layers.find(l => l.id === activeLayerId);
 
-      if (!shape) return;
+      if (sources.length === 0) return;
 
       if (!targetLayer || targetLayer.category !== 'measurement') {
           alert("Sélectionnez d'abord un calque de métré (Surface/Longueur) dans la colonne de gauche pour y ajouter cette forme.");
           return;
       }
 
-      // Logic: Allow conversion if it makes sense geometry-wise
-      let newType: 'polygon' | 'polyline' = shape.type;
-      
-      // Force type based on target layer
-      if (targetLayer.type === 'surface') newType = 'polygon';
-      if (targetLayer.type === 'length') newType = 'polyline';
-
-      if (window.confirm(`Ajouter "${shape.name}" au calque "${targetLayer.name}" ?`)) {
-        let measuredValue = 0;
-        try {
-            if (newType === 'polygon') {
-                    // Close polygon if needed
-                    const points = shape.points.length > 0 ? [...shape.points, shape.points[0]] : [];
-                    const turfPoints = points.map(p => [p.lng, p.lat]);
-                    if (turfPoints.length >= 4) { // 3 points + closure
-                        const polygon = turf.polygon([turfPoints]);
-                        measuredValue = turf.area(polygon);
-                    }
-            } else {
-                    const turfPoints = shape.points.map(p => [p.lng, p.lat]);
-                    if (turfPoints.length >= 2) {
-                        const line = turf.lineString(turfPoints);
-                        measuredValue = turf.length(line, { units: 'kilometers' }) * 1000;
-                    }
-            }
-        } catch (err) {
-            console.warn("Erreur calcul géométrie conversion:", err);
-            // We proceed even if calculation fails, with 0 value
-        }
-
-        const newShape: Shape = {
-            ...shape,
-            id: generateId(), // New ID
-            layerId: targetLayer.id, // Move to target layer
-            type: newType, // Adopt target type
-            measuredValue: measuredValue,
-            name: shape.name === "Sans nom" ? `Import ${targetLayer.name}` : shape.name
-        };
-
-        // Remove old shape, add new one
-        setShapes(prev => [...prev.filter(s => s.id !== shapeId), newShape]);
-        setSelectedShapeId(newShape.id);
+      const convertible = sources.filter(s => s.type !== 'point');
+      if (convertible.length === 0) {
+          alert("Un point ne peut pas être ajouté au métré : seules les surfaces et les lignes sont mesurables.");
+          return;
       }
+
+      const converted = convertible.map(s => adaptShapeToLayer(s, targetLayer));
+
+      // Remove old shapes, add new ones
+      history.record(convertible.length === 1 ? `Ajouter "${convertible[0].name}" au métré` : `Ajouter ${convertible.length} formes au métré`);
+      setShapes(prev => [...prev.filter(s => !convertible.some(c => c.id === s.id)), ...converted]);
+      setSelectedShapeIds(converted.map(s => s.id));
+
+      const skipped = sources.length - convertible.length;
+      if (skipped > 0) alert(`${skipped} point${skipped > 1 ? 's' : ''} ignoré${skipped > 1 ? 's' : ''} : seules les surfaces et les lignes sont mesurables.`);
   };
 
+  const handleConvertShape = (shapeId: string) => handleConvertShapes([shapeId]);
+
   // --- Features: URL Center & KML Import ---
 
-  const handleUrlSubmit = (e: React.FormEvent) => {
+  const parsedLocation = useMemo(() => parseLocation(locationInput), [locationInput]);
+
+  const handleLocationSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const regex = /@(-?\d+\.\d+),(-?\d+\.\d+)/;
-    const match = mapUrl.match(regex);
-    
-    if (match) {
-        const lat = parseFloat(match[1]);
-        const lng = parseFloat(match[2]);
-        setMapCenter({ lat, lng });
-    } else {
-        alert("Lien invalide. Utilisez un lien Google Maps contenant des coordonnées (ex: @48.85,2.35).");
+    if (!parsedLocation) {
+        alert("Position non reconnue. Formats acceptés :\n- coordonnées décimales (48.85, 2.35)\n- degrés minutes secondes (48°51'24\"N 2°21'03\"E)\n- Lambert-93 (X=652469 Y=6861720)\n- liens Google Maps, OpenStreetMap, Plans (Apple) ou URI geo:");
+        return;
     }
+    const { point, zoom } = parsedLocation;
+    setMapCenter({ ...point });
+    setMapZoom(zoom ?? 18);
+    setLocationMarker({ point, label: formatLatLng(point) });
+    setIsLocationFocused(false);
   };
 
-  const kmlColorToHex = (kmlColor: string | null | undefined): string => {
-    if (!kmlColor) return '#9ca3af';
-    const clean = kmlColor.trim().toLowerCase();
-    if (clean.length === 8) return `#${clean.substring(6, 8)}${clean.substring(4, 6)}${clean.substring(2, 4)}`;
-    if (clean.length === 6) return `#${clean.substring(4, 6)}${clean.substring(2, 4)}${clean.substring(0, 2)}`;
-    return '#9ca3af';
+  const handleChangeGeocoderSettings = (settings: GeocoderSettings) => {
+    setGeocoderSettings(settings);
+    saveGeocoderSettings(settings);
   };
 
-  const handleKmlImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // --- Tile sources ---
+
+  const updateCustomTileSources = (sources: TileSourceConfig[]) => {
+    setCustomTileSources(sources);
+    saveCustomTileSources(sources);
+  };
+
+  // A new source is shown right away, as the base map or as an overlay
+  const handleAddTileSource = (source: TileSourceConfig) => {
+    updateCustomTileSources([...customTileSources, source]);
+    if (source.overlay) setOverlays(prev => [...prev, source.id]);
+    else setBaseLayer(source.id);
+  };
+
+  // Projects still referring to the source fall back to the default base map
+  const handleRemoveTileSource = (id: string) => {
+    updateCustomTileSources(customTileSources.filter(s => s.id !== id));
+    setOverlays(prev => prev.filter(o => o !== id));
+    setMbTiles(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleToggleOverlay = (id: string) => {
+    setOverlays(prev => prev.includes(id) ? prev.filter(o => o !== id) : [...prev, id]);
+  };
+
+  // Registers a new MBTiles source, or reattaches the file of an existing one after a reload
+  const handleOpenMbTiles = async (file: File, overlay: boolean, sourceId?: string) => {
+    try {
+        const archive = await openMbTiles(file, file.name);
+        const id = sourceId || generateId();
+        setMbTiles(prev => ({ ...prev, [id]: archive }));
+        if (!sourceId) {
+            handleAddTileSource({ id, name: archive.name, kind: 'mbtiles', url: '', attribution: archive.attribution, maxZoom: archive.maxZoom, ...(overlay ? { overlay: true } : {}) });
+            if (archive.bounds) setFocusPoints(archive.bounds);
+        }
+    } catch (err) {
+        console.error("Erreur lecture MBTiles:", err);
+        alert(err instanceof MbTilesError ? err.message : "Impossible de lire ce fichier MBTiles.");
+    }
+  };
+
+  // An extent is fitted in the view, a plain point gets the provider's zoom
+  const handleSelectAddress = (result: GeocodeResult) => {
+    if (result.bounds) {
+        setFocusPoints(result.bounds);
+    } else {
+        setMapCenter({ ...result.point });
+        setMapZoom(result.zoom ?? 18);
+    }
+    setLocationMarker({ point: result.point, label: result.label });
+  };
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-        const text = event.target?.result as string;
-        if (!text) return;
-
-        try {
-            const parser = new DOMParser();
-            const xmlDoc = parser.parseFromString(text, "text/xml");
-            const newLayers: Layer[] = [];
-            const newShapes: Shape[] = [];
-            
-            // Parse Styles
-            const styleMap: Record<string, string> = {};
-            Array.from(xmlDoc.getElementsByTagName("Style")).forEach(style => {
-                const id = style.getAttribute("id");
-                if (id) {
-                    const polyColor = style.getElementsByTagName("PolyStyle")[0]?.getElementsByTagName("color")[0]?.textContent;
-                    const lineColor = style.getElementsByTagName("LineStyle")[0]?.getElementsByTagName("color")[0]?.textContent;
-                    if (polyColor) styleMap[`#${id}`] = kmlColorToHex(polyColor);
-                    else if (lineColor) styleMap[`#${id}`] = kmlColorToHex(lineColor);
-                }
-            });
-
-            const parseCoords = (coordStr: string): GeoPoint[] => {
-                return coordStr.trim().split(/\s+/).map(pair => {
-                    const parts = pair.split(',');
-                    return parts.length >= 2 ? { lat: parseFloat(parts[1]), lng: parseFloat(parts[0]) } : null;
-                }).filter(p => p !== null && !isNaN(p.lat) && !isNaN(p.lng)) as GeoPoint[];
-            };
-
-            const processPlacemark = (placemark: Element, layerId: string, defaultColor: string): Shape | null => {
-                 const name = placemark.getElementsByTagName("name")[0]?.textContent || "Sans nom";
-                 const polygon = placemark.getElementsByTagName("Polygon")[0];
-                 const lineString = placemark.getElementsByTagName("LineString")[0];
-                 let points: GeoPoint[] = [];
-                 let type: 'polygon' | 'polyline' = 'polygon';
-
-                 if (polygon) {
-                     type = 'polygon';
-                     const coords = polygon.getElementsByTagName("coordinates")[0]?.textContent;
-                     if (coords) points = parseCoords(coords);
-                 } else if (lineString) {
-                     type = 'polyline';
-                     const coords = lineString.getElementsByTagName("coordinates")[0]?.textContent;
-                     if (coords) points = parseCoords(coords);
-                 }
-
-                 if (points.length > 0) {
-                    return {
-                        id: generateId(),
-                        name: name,
-                        type,
-                        points,
-                        layerId,
-                        measuredValue: 0
-                    };
-                 }
-                 return null;
-            };
-
-            const folders = xmlDoc.getElementsByTagName("Folder");
-            if (folders.length > 0) {
-                Array.from(folders).forEach((folder, index) => {
-                    const folderName = folder.getElementsByTagName("name")[0]?.textContent || `Dossier ${index + 1}`;
-                    const layerId = generateId();
-                    const placemarks = folder.getElementsByTagName("Placemark");
-                    let layerColor = PRESET_COLORS[index % PRESET_COLORS.length];
-                    
-                    if (placemarks.length > 0) {
-                        const styleUrl = placemarks[0].getElementsByTagName("styleUrl")[0]?.textContent;
-                        if (styleUrl && styleMap[styleUrl]) layerColor = styleMap[styleUrl];
-                    }
-
-                    newLayers.push({ id: layerId, name: folderName, color: layerColor, type: 'mixed', category: 'kml', isVisible: true, opacity: 0.6 });
-                    Array.from(placemarks).forEach(pm => {
-                        const shape = processPlacemark(pm, layerId, layerColor);
-                        if (shape) newShapes.push(shape);
-                    });
-                });
-            } else {
-                const placemarks = xmlDoc.getElementsByTagName("Placemark");
-                if (placemarks.length > 0) {
-                     const layerId = generateId();
-                     const layerColor = '#9ca3af';
-                     newLayers.push({ id: layerId, name: `Import ${file.name}`, color: layerColor, type: 'mixed', category: 'kml', isVisible: true, opacity: 0.6 });
-                     Array.from(placemarks).forEach(pm => {
-                        const shape = processPlacemark(pm, layerId, layerColor);
-                        if (shape) newShapes.push(shape);
-                     });
-                }
-            }
-
-            if (newShapes.length > 0) {
-                setLayers(prev => [...prev, ...newLayers]);
-                setShapes(prev => [...prev, ...newShapes]);
-                if (newShapes[0].points.length > 0) setMapCenter(newShapes[0].points[0]);
-            } else {
-                alert("Aucune forme compatible (Polygone/Ligne) trouvée.");
-            }
-        } catch (err) {
+  const handleKmlImport = async (file: File) => {
+    try {
+        const { layers: newLayers, groups: newGroups, shapes: newShapes, summary } = parseKml(await readKmlFile(file), file.name);
+
+        if (newShapes.length === 0) {
+            alert(`Aucune forme compatible trouvée.\n\n${formatImportSummary(summary)}`);
+            return;
+        }
+        history.record(`Import ${file.name}`);
+        setLayers(prev => [...prev, ...newLayers]);
+        setGroups(prev => [...prev, ...newGroups]);
+        setShapes(prev => [...prev, ...newShapes]);
+        setMapCenter(newShapes[0].points[0]);
+        setMapZoom(18);
+        if (summary.skipped.length > 0) alert(formatImportSummary(summary));
+    } catch (err) {
+        if (err instanceof KmlError) {
+            alert(`Erreur KML : ${err.message}`);
+        } else {
             console.error(err);
             alert("Erreur KML.");
         }
-    };
-    reader.readAsText(file);
+    }
+  };
+
+  const handleGeoJsonImport = async (file: File) => {
+    try {
+        const { layer, shapes: newShapes, skipped } = parseGeoJson(await file.text(), file.name);
+        if (newShapes.length === 0) {
+            alert("Aucune forme compatible (Polygone/Ligne) trouvée.");
+            return;
+        }
+        history.record(`Import ${file.name}`);
+        setLayers(prev => [...prev, layer]);
+        setShapes(prev => [...prev, ...newShapes]);
+        setMapCenter(newShapes[0].points[0]);
+        setMapZoom(18);
+        if (skipped > 0) alert(`${skipped} entité(s) ignorée(s) : géométrie absente ou non prise en charge.`);
+    } catch (err) {
+        if (err instanceof GeoJsonError) {
+            alert(`Erreur GeoJSON : ${err.message}`);
+        } else {
+            console.error(err);
+            alert("Erreur GeoJSON.");
+        }
+    }
   };
-  
-  const PRESET_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899', '#f97316', '#06b6d4'];
 
+  const handleReferenceImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be imported again
+    e.target.value = '';
+    if (!file) return;
+    if (/\.(geo)?json$/i.test(file.name)) handleGeoJsonImport(file);
+    else handleKmlImport(file);
+  };
+  
+  // Totals in each layer's display unit (sum of the rounded quantities)
   const layerTotals = useMemo(() => {
     const totals: Record<string, number> = {};
     layers.forEach(l => {
         if (l.category === 'measurement') {
-            totals[l.id] = shapes
-                .filter(s => s.layerId === l.id)
-                .reduce((sum, s) => sum + s.measuredValue, 0);
+            totals[l.id] = layerTotal(l, shapes, resolveUnitSettings(units, l));
         }
     });
     return totals;
-  }, [layers, shapes]);
+  }, [layers, shapes, units]);
+
+  const selectedShape = shapes.find(s => s.id === selectedShapeId);
+
+  // Layers in list order (groups depth first), used by the estimate and exports
+  const orderedLayers = useMemo(() => orderLayers(layers, groups), [layers, groups]);
+
+  const tileSources = useMemo(() => [...BUILT_IN_TILE_SOURCES, ...customTileSources], [customTileSources]);
+  const baseSource = resolveBaseSource(tileSources, baseLayer);
+  const overlaySources = useMemo(
+    () => overlays.flatMap(id => tileSources.filter(s => s.id === id && s.overlay)),
+    [overlays, tileSources]
+  );
+  const missingTileSourceIds = tileSources.filter(s => s.kind === 'mbtiles' && !mbTiles[s.id]).map(s => s.id);
+
+  const costSummary = useMemo(() => computeCostSummary(orderedLayers, layerTotals, units), [orderedLayers, layerTotals, units]);
 
   const handleRunAnalysis = async () => {
     setIsAnalysisOpen(true);
     setIsAnalyzing(true);
-    const measurementLayers = layers.filter(l => l.category === 'measurement');
+    const measurementLayers = orderedLayers.filter(l => l.category === 'measurement');
     const measurementShapes = shapes.filter(s => {
         const layer = layers.find(l => l.id === s.layerId);
         return layer && layer.category === 'measurement';
     });
-    const result = await analyzeMeasurements(measurementLayers, measurementShapes);
+    const result = await analyzeMeasurements(measurementLayers, measurementShapes, units, costSummary);
     setAnalysisResult(result);
     setIsAnalyzing(false);
   };
@@ -333,32 +881,97 @@ const App: React.FC = () => {
             <Ruler className="w-5 h-5" />
           </div>
           <h1 className="text-xl font-bold text-gray-800 hidden md:block">MétréMaster</h1>
+          <ProjectSwitcher
+            projects={projects}
+            currentProjectId={currentProject?.id || null}
+            saveStatus={saveStatus}
+            onOpenProject={handleOpenProject}
+            onCreateProject={handleCreateProject}
+            onRenameProject={handleRenameProject}
+            onDuplicateProject={handleDuplicateProject}
+            onDeleteProject={handleDeleteProject}
+            onExportProject={handleExportProject}
+            onImportProjectFile={handleImportProjectFile}
+          />
         </div>
 
-        <div className="flex-1 max-w-2xl flex items-center gap-2">
-            <form onSubmit={handleUrlSubmit} className="flex-1 relative flex items-center">
+        <div className="flex-1 max-w-4xl flex items-center gap-2">
+            <form onSubmit={handleLocationSubmit} className="flex-1 relative flex items-center">
                 <MapPin className="absolute left-3 w-4 h-4 text-gray-400" />
                 <input 
                     type="text" 
-                    value={mapUrl}
-                    onChange={(e) => setMapUrl(e.target.value)}
-                    placeholder="Lien Google Maps..."
+                    value={locationInput}
+                    onChange={(e) => { setLocationInput(e.target.value); setIsLocationFocused(true); }}
+                    onFocus={() => setIsLocationFocused(true)}
+                    onBlur={() => setIsLocationFocused(false)}
+                    placeholder="Lien de carte, coordonnées (48.85, 2.35), DMS ou Lambert-93..."
                     className="w-full pl-9 pr-4 py-1.5 text-sm border border-gray-300 rounded-l-md focus:ring-2 focus:ring-blue-500 outline-none"
                 />
+                {isLocationFocused && locationInput.trim() && (
+                    <div className="absolute top-full left-0 right-0 mt-1 z-[1100] bg-white border border-gray-200 rounded-md shadow-lg px-3 py-2 text-xs">
+                        {parsedLocation ? (
+                            <>
+                                <p className="text-gray-400">{LOCATION_SOURCE_LABELS[parsedLocation.source]}{parsedLocation.zoom !== undefined && ` · zoom ${parsedLocation.zoom}`}</p>
+                                <p className="font-mono text-gray-800">{formatLatLng(parsedLocation.point)}</p>
+                                <p className="font-mono text-gray-500">{formatDms(parsedLocation.point)}</p>
+                            </>
+                        ) : (
+                            <p className="text-gray-400 italic">Format non reconnu</p>
+                        )}
+                    </div>
+                )}
                 <button type="submit" className="px-3 py-1.5 bg-gray-100 border border-l-0 border-gray-300 rounded-r-md hover:bg-gray-200 text-gray-600">
                     <Search className="w-4 h-4" />
                 </button>
             </form>
+            <AddressSearch
+              settings={geocoderSettings}
+              onChangeSettings={handleChangeGeocoderSettings}
+              onSelect={handleSelectAddress}
+            />
             <div className="relative group">
                 <label htmlFor="kml-upload" className="cursor-pointer flex items-center gap-2 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 text-gray-700 shadow-sm">
                     <Upload className="w-4 h-4" />
-                    <span className="hidden sm:inline">KML</span>
+                    <span className="hidden sm:inline">KML / KMZ / GeoJSON</span>
                 </label>
-                <input id="kml-upload" type="file" accept=".kml,.xml" onChange={handleKmlImport} className="hidden" />
+                <input id="kml-upload" type="file" accept=".kml,.kmz,.xml,.geojson,.json" onChange={handleReferenceImport} className="hidden" />
             </div>
+            <button
+                onClick={() => setIsExportOpen(true)}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 text-gray-700 shadow-sm"
+                title="Exporter les calques"
+            >
+                <Download className="w-4 h-4" />
+                <span className="hidden sm:inline">Exporter</span>
+            </button>
+            <button
+                onClick={() => setIsUnitsOpen(true)}
+                className="p-1.5 bg-white border border-gray-300 rounded-md hover:bg-gray-50 text-gray-700 shadow-sm"
+                title="Unités et précision"
+            >
+                <SlidersHorizontal className="w-4 h-4" />
+            </button>
         </div>
 
         <div className="flex items-center gap-3 min-w-fit">
+             <div className="bg-gray-100 p-1 rounded-lg flex gap-1 border border-gray-200">
+                <button
+                    onClick={history.undo}
+                    disabled={!history.canUndo}
+                    className="p-1.5 rounded-md transition-all text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title={history.undoLabel ? `Annuler : ${history.undoLabel} (Ctrl+Z)` : 'Annuler (Ctrl+Z)'}
+                >
+                    <Undo2 className="w-5 h-5" />
+                </button>
+                <button
+                    onClick={history.redo}
+                    disabled={!history.canRedo}
+                    className="p-1.5 rounded-md transition-all text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    title={history.redoLabel ? `Rétablir : ${history.redoLabel} (Ctrl+Shift+Z)` : 'Rétablir (Ctrl+Shift+Z)'}
+                >
+                    <Redo2 className="w-5 h-5" />
+                </button>
+             </div>
              <div className="bg-gray-100 p-1 rounded-lg flex gap-1 border border-gray-200">
                 <button
                     onClick={() => { setToolMode(ToolMode.SELECT); }}
@@ -376,6 +989,17 @@ const App: React.FC = () => {
                 >
                     <PenTool className="w-5 h-5" />
                 </button>
+                {SURFACE_TOOLS.map(({ mode, title, Icon }) => (
+                    <button
+                        key={mode}
+                        onClick={() => { setToolMode(mode); setSelectedShapeId(null); }}
+                        disabled={!activeLayerId || layers.find(l=>l.id===activeLayerId)?.category === 'kml' || layers.find(l=>l.id===activeLayerId)?.type === 'length'}
+                        className={`p-1.5 rounded-md transition-all ${toolMode === mode ? 'bg-white shadow text-blue-600' : 'text-gray-500 hover:text-gray-700 disabled:opacity-30'}`}
+                        title={title}
+                    >
+                        <Icon className="w-5 h-5" />
+                    </button>
+                ))}
                  <button
                     onClick={() => { setToolMode(ToolMode.DRAW_LINE); setSelectedShapeId(null); }}
                     disabled={!activeLayerId || layers.find(l=>l.id===activeLayerId)?.category === 'kml' || layers.find(l=>l.id===activeLayerId)?.type === 'surface'}
@@ -384,6 +1008,8 @@ const App: React.FC = () => {
                 >
                     <Ruler className="w-5 h-5" />
                 </button>
+                <div className="w-px bg-gray-300 mx-1 my-1"></div>
+                <SnapControl settings={snapSettings} onChange={handleChangeSnapSettings} />
             </div>
             <button 
                 onClick={handleRunAnalysis}
@@ -397,24 +1023,52 @@ const App: React.FC = () => {
 
       <div className="flex-1 flex overflow-hidden">
         <div className="w-80 p-4 z-20 flex flex-col gap-4">
+          <div className="flex-1 min-h-0">
           <LayerManager 
             layers={layers}
+            groups={groups}
             shapes={shapes}
             activeLayerId={activeLayerId}
+            selectedShapeIds={selectedShapeIds}
             layerTotals={layerTotals}
-            baseLayer={baseLayer}
+            tileSources={tileSources}
+            missingTileSourceIds={missingTileSourceIds}
+            baseLayer={baseSource.id}
+            overlays={overlays}
             onSetBaseLayer={setBaseLayer}
+            onToggleOverlay={handleToggleOverlay}
+            onManageTileSources={() => setIsTileSourcesOpen(true)}
             onSetActiveLayer={handleSetActiveLayer}
             onAddLayer={handleAddLayer}
             onDeleteLayer={handleDeleteLayer}
+            onRenameLayer={handleRenameLayer}
+            onMoveLayer={handleMoveLayer}
+            onAddGroup={handleAddGroup}
+            onRenameGroup={handleRenameGroup}
+            onDeleteGroup={handleDeleteGroup}
+            onToggleGroupVisibility={handleToggleGroupVisibility}
+            onMoveGroup={handleMoveGroup}
             onDeleteShape={handleDeleteShape}
+            onRenameShape={handleRenameShape}
+            onSelectShape={handleSelectShape}
+            onSelectShapes={handleSelectShapes}
+            onFocusShape={handleFocusShape}
             onToggleVisibility={handleToggleVisibility}
             onUpdateLayerOpacity={handleUpdateOpacity}
+            onEditDerived={setDerivedLayerId}
+            units={units}
+          />
+          </div>
+          <CostPanel
+            layers={orderedLayers}
+            units={units}
+            costs={costSummary}
+            onUpdatePricing={handleUpdateLayerPricing}
           />
         </div>
 
         <div className="flex-1 relative bg-gray-200">
-           {!activeLayerId && !selectedShapeId && (
+           {!activeLayerId && selectedShapeIds.length === 0 && (
                <div className="absolute top-6 left-1/2 -translate-x-1/2 z-[500] bg-white/90 backdrop-blur text-gray-800 px-6 py-3 rounded-full shadow-xl flex items-center gap-3 border border-amber-200 pointer-events-none">
                    <AlertTriangle className="w-5 h-5 text-amber-500" />
                    <p className="text-sm font-medium">Sélectionnez un calque pour commencer</p>
@@ -423,17 +1077,55 @@ const App: React.FC = () => {
 
            <MapCanvas 
              layers={layers}
+             groups={groups}
              shapes={shapes}
              activeLayerId={activeLayerId}
-             selectedShapeId={selectedShapeId}
+             selectedShapeIds={selectedShapeIds}
              toolMode={toolMode}
-             baseLayer={baseLayer}
+             baseSource={baseSource}
+             overlaySources={overlaySources}
+             mbTiles={mbTiles}
              mapCenter={mapCenter}
+             mapZoom={mapZoom}
+             focusPoints={focusPoints}
+             locationMarker={locationMarker}
+             onViewChange={handleViewChange}
              onAddShape={handleAddShape}
              onDeleteShape={handleDeleteShape}
              onSelectShape={handleSelectShape}
+             onSelectShapes={handleSelectShapes}
              onConvertShape={handleConvertShape}
+             onBeginShapeEdit={handleBeginShapeEdit}
+             onUpdateShapePoints={handleUpdateShapePoints}
+             onAddHole={handleAddHole}
+             onGeometryOperation={handleGeometryOperation}
+             onSetToolMode={setToolMode}
+             snapSettings={snapSettings}
+             units={units}
            />
+
+           {selectedShape && toolMode === ToolMode.SELECT && (
+               <ShapePropertiesPanel
+                 key={selectedShape.id}
+                 shape={selectedShape}
+                 layer={layers.find(l => l.id === selectedShape.layerId)}
+                 units={units}
+                 onUpdate={handleUpdateShapeProperties}
+                 onClose={() => setSelectedShapeId(null)}
+               />
+           )}
+
+           {selectedShapeIds.length > 1 && toolMode === ToolMode.SELECT && (
+               <SelectionBar
+                 shapes={shapes.filter(s => selectedShapeIds.includes(s.id))}
+                 layers={layers}
+                 units={units}
+                 onMove={(layerId, copy) => handleMoveShapes(selectedShapeIds, layerId, copy)}
+                 onConvert={() => handleConvertShapes(selectedShapeIds)}
+                 onDelete={() => handleDeleteShapes(selectedShapeIds)}
+                 onClear={() => setSelectedShapeIds([])}
+               />
+           )}
         </div>
       </div>
       
@@ -443,6 +1135,46 @@ const App: React.FC = () => {
         loading={isAnalyzing}
         content={analysisResult}
       />
+
+      <ExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        projectName={currentProject?.name || 'Projet'}
+        layers={orderedLayers}
+        groups={groups}
+        shapes={shapes}
+        layerTotals={layerTotals}
+        units={units}
+        tiles={[baseSource, ...overlaySources].flatMap(source => snapshotTiles(source, mbTiles[source.id]) || [])}
+        analysis={analysisResult}
+      />
+
+      <UnitsModal
+        isOpen={isUnitsOpen}
+        onClose={() => setIsUnitsOpen(false)}
+        units={units}
+        layers={layers}
+        onChangeUnits={setUnits}
+        onChangeLayerUnits={handleUpdateLayerUnits}
+      />
+
+      <TileSourcesModal
+        isOpen={isTileSourcesOpen}
+        onClose={() => setIsTileSourcesOpen(false)}
+        sources={tileSources}
+        missingSourceIds={missingTileSourceIds}
+        onAdd={handleAddTileSource}
+        onRemove={handleRemoveTileSource}
+        onOpenMbTiles={handleOpenMbTiles}
+      />
+
+      <DerivedQuantityModal
+        layer={layers.find(l => l.id === derivedLayerId) || null}
+        shapes={shapes}
+        units={units}
+        onClose={() => setDerivedLayerId(null)}
+        onSave={handleUpdateLayerDerived}
+      />
     </div>
   );
 };
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GeocoderProviderId, GeocoderSettings } from '../types';
+import { Home, Loader2, Settings, History, X } from 'lucide-react';
+import {
+  GEOCODER_PROVIDERS, GeocodeResult, GeocodingError, MIN_QUERY_LENGTH,
+  addRecentSearch, createGeocoder, loadRecentSearches, saveRecentSearches
+} from '../services/geocoding';
+
+interface AddressSearchProps {
+  settings: GeocoderSettings;
+  onChangeSettings: (settings: GeocoderSettings) => void;
+  onSelect: (result: GeocodeResult) => void;
+}
+
+const AUTOCOMPLETE_DELAY_MS = 300;
+
+const AddressSearch: React.FC<AddressSearchProps> = ({ settings, onChangeSettings, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [resultsQuery, setResultsQuery] = useState(''); // Query the results belong to
+  const [recent, setRecent] = useState<GeocodeResult[]>(loadRecentSearches);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [highlighted, setHighlighted] = useState(-1);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const geocoder = useMemo(() => createGeocoder(settings), [settings]);
+  const trimmed = query.trim();
+  // Recent searches while the box is empty, results otherwise
+  const showRecent = trimmed === '';
+  const items = showRecent ? recent : results;
+
+  // Close the dropdowns when clicking outside
+  useEffect(() => {
+    if (!isOpen && !isSettingsOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setIsSettingsOpen(false);
+      }
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen, isSettingsOpen]);
+
+  // Only the latest request counts: earlier ones are aborted
+  const runSearch = async (text: string) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setError('');
+    try {
+      const found = await geocoder.search(text, controller.signal);
+      setResults(found);
+      setResultsQuery(text);
+      setHighlighted(found.length > 0 ? 0 : -1);
+      setIsOpen(true);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setResults([]);
+      setError(err instanceof GeocodingError ? err.message : "Erreur de géocodage.");
+      console.error("Geocoding error", err);
+    } finally {
+      if (abortRef.current === controller) setIsLoading(false);
+    }
+  };
+
+  // Autocomplete, debounced
+  useEffect(() => {
+    if (!geocoder.autocomplete || trimmed.length < MIN_QUERY_LENGTH || trimmed === resultsQuery) return;
+    const timer = window.setTimeout(() => runSearch(trimmed), AUTOCOMPLETE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [trimmed, geocoder]);
+
+  // Pending requests are dropped on unmount or provider change
+  useEffect(() => () => abortRef.current?.abort(), [geocoder]);
+
+  const choose = (result: GeocodeResult) => {
+    const nextRecent = addRecentSearch(recent, result);
+    setRecent(nextRecent);
+    saveRecentSearches(nextRecent);
+    setQuery(result.label);
+    setResultsQuery(result.label);
+    setResults([]);
+    setIsOpen(false);
+    onSelect(result);
+  };
+
+  const clearRecent = () => {
+    setRecent([]);
+    saveRecentSearches([]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (items.length === 0) return;
+      setIsOpen(true);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlighted(h => (h + step + items.length) % items.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (isOpen && items[highlighted]) choose(items[highlighted]);
+      else if (trimmed.length >= MIN_QUERY_LENGTH) runSearch(trimmed);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const updateSettings = (patch: Partial<GeocoderSettings>) => {
+    setResults([]);
+    setResultsQuery('');
+    onChangeSettings({ ...settings, ...patch });
+  };
+
+  return (
+    <div ref={containerRef} className="flex-1 relative flex items-center">
+      <Home className="absolute left-3 w-4 h-4 text-gray-400" />
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => { setQuery(e.target.value); setIsOpen(true); setHighlighted(-1); setError(''); }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={geocoder.autocomplete ? 'Adresse du chantier...' : 'Adresse du chantier (Entrée pour chercher)...'}
+        className="w-full pl-9 pr-8 py-1.5 text-sm border border-gray-300 rounded-l-md focus:ring-2 focus:ring-blue-500 outline-none"
+      />
+      {isLoading && <Loader2 className="absolute right-12 w-4 h-4 text-gray-400 animate-spin" />}
+      {query && !isLoading && (
+        <button onClick={() => { setQuery(''); setResults([]); setResultsQuery(''); }} className="absolute right-12 text-gray-400 hover:text-gray-700" title="Effacer">
+          <X className="w-3 h-3" />
+        </button>
+      )}
+      <button
+        onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+        className="px-3 py-1.5 bg-gray-100 border border-l-0 border-gray-300 rounded-r-md hover:bg-gray-200 text-gray-600"
+        title={`Géocodeur : ${geocoder.name}`}
+      >
+        <Settings className="w-4 h-4" />
+      </button>
+
+      {isOpen && !isSettingsOpen && (error || items.length > 0 || (!showRecent && resultsQuery === trimmed && !isLoading)) && (
+        <div className="absolute top-full left-0 right-0 mt-1 z-[1100] bg-white border border-gray-200 rounded-md shadow-lg text-sm overflow-hidden">
+          {showRecent && (
+            <div className="px-3 py-1 flex justify-between items-center text-[10px] text-gray-400 font-bold uppercase border-b border-gray-100">
+              <span className="flex items-center gap-1"><History className="w-3 h-3" /> Recherches récentes</span>
+              <button onClick={clearRecent} className="normal-case font-normal hover:text-gray-700">Effacer</button>
+            </div>
+          )}
+          {error && <p className="px-3 py-2 text-xs text-red-600">{error}</p>}
+          {!error && !showRecent && items.length === 0 && <p className="px-3 py-2 text-xs text-gray-400 italic">Aucune adresse trouvée.</p>}
+          {items.map((result, index) => (
+            <button
+              key={result.id}
+              onMouseDown={(e) => e.preventDefault()} // Keep the focus in the input
+              onClick={() => choose(result)}
+              onMouseEnter={() => setHighlighted(index)}
+              className={`w-full text-left px-3 py-1.5 truncate ${index === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+              title={result.label}
+            >
+              {result.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isSettingsOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-[1100] p-3 space-y-2 text-sm text-gray-700">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Géocodeur</p>
+          <select
+            value={settings.provider}
+            onChange={(e) => updateSettings({ provider: e.target.value as GeocoderProviderId })}
+            className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm bg-white"
+          >
+            {Object.entries(GEOCODER_PROVIDERS).map(([id, provider]) => <option key={id} value={id}>{provider.name}</option>)}
+          </select>
+          <label className="block text-xs text-gray-500">
+            URL du service (vide : service public)
+            <input
+              value={settings.baseUrl}
+              onChange={(e) => updateSettings({ baseUrl: e.target.value })}
+              placeholder={GEOCODER_PROVIDERS[settings.provider].defaultBaseUrl}
+              className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm font-mono"
+            />
+          </label>
+          <p className="text-[10px] text-gray-400">
+            {geocoder.autocomplete ? 'Suggestions pendant la saisie.' : "Recherche à la validation (Entrée), l'autocomplétion n'est pas autorisée sur ce service."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AddressSearch;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { Layer, LayerPricing, UnitSettings } from '../types';
+import { Euro, ChevronDown, ChevronRight, Plus, X } from 'lucide-react';
+import { CostSummary, DEFAULT_PRICING, VAT_RATES, formatCurrency, formatPercent } from '../services/costs';
+import { formatNumber, layerQuantityKind, parseDecimal, resolveUnitSettings, toBasePrice, toDisplayPrice, unitLabel } from '../services/units';
+
+interface CostPanelProps {
+  layers: Layer[];
+  units: UnitSettings;
+  costs: CostSummary;
+  onUpdatePricing: (id: string, pricing: LayerPricing | undefined) => void;
+}
+
+interface DecimalInputProps {
+  value: number;
+  onCommit: (value: number) => void;
+  className?: string;
+  title?: string;
+}
+
+// Keeps the typed text while editing ("12," is not a number yet), commits on blur or Enter
+const DecimalInput: React.FC<DecimalInputProps> = ({ value, onCommit, className, title }) => {
+  const [draft, setDraft] = useState(String(value).replace('.', ','));
+
+  useEffect(() => { setDraft(String(value).replace('.', ',')); }, [value]);
+
+  const commit = () => {
+    const parsed = parseDecimal(draft);
+    if (parsed === null || parsed < 0) setDraft(String(value).replace('.', ','));
+    else if (parsed !== value) onCommit(parsed);
+  };
+
+  return (
+    <input
+      value={draft}
+      inputMode="decimal"
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      className={`border border-gray-300 rounded px-1.5 py-0.5 text-right ${className || ''}`}
+      title={title}
+    />
+  );
+};
+
+const CostPanel: React.FC<CostPanelProps> = ({ layers, units, costs, onUpdatePricing }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const measurementLayers = layers.filter(l => l.category === 'measurement');
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-200 shrink-0 overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full px-4 py-2 bg-gray-100 text-gray-600 text-xs font-bold uppercase tracking-wider flex justify-between items-center"
+      >
+        <span className="flex items-center gap-2">
+          {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          <Euro className="w-3 h-3" />
+          Estimation
+        </span>
+        <span className="normal-case text-sm text-gray-800">{formatCurrency(costs.totalTTC)} TTC</span>
+      </button>
+
+      {isOpen && (
+        <div className="max-h-72 overflow-y-auto">
+          {measurementLayers.length === 0 && <p className="text-xs text-center text-gray-400 italic p-3">Aucun calque de métré.</p>}
+          {measurementLayers.map(layer => {
+            const line = costs.lines.find(l => l.layer.id === layer.id);
+            const pricing = layer.pricing;
+            const layerUnits = resolveUnitSettings(units, layer);
+            const kind = layerQuantityKind(layer);
+            const unit = unitLabel(kind, layerUnits);
+            const update = (patch: Partial<LayerPricing>) => pricing && onUpdatePricing(layer.id, { ...pricing, ...patch });
+            return (
+              <div key={layer.id} className="px-3 py-2 border-b border-gray-100 text-xs">
+                <div className="flex items-center gap-2">
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: layer.color }} />
+                  <span className="flex-1 truncate font-medium text-gray-700">{layer.name}</span>
+                  {pricing ? (
+                    <>
+                      <span className="font-bold text-gray-800">{formatCurrency(line?.amountHT || 0)} HT</span>
+                      <button onClick={() => onUpdatePricing(layer.id, undefined)} className="text-gray-300 hover:text-red-500" title="Retirer le prix">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => onUpdatePricing(layer.id, DEFAULT_PRICING)}
+                      className="flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                    >
+                      <Plus className="w-3 h-3" /> Prix
+                    </button>
+                  )}
+                </div>
+                {pricing && line && (
+                  <div className="mt-1.5 grid grid-cols-3 gap-1.5 text-[10px] text-gray-500">
+                    <label className="flex flex-col">
+                      PU HT (€/{unit})
+                      <DecimalInput
+                        value={toDisplayPrice(pricing.unitPrice, kind, layerUnits)}
+                        onCommit={(price) => update({ unitPrice: toBasePrice(price, kind, layerUnits) })}
+                        className="w-full text-xs"
+                      />
+                    </label>
+                    <label className="flex flex-col">
+                      Pertes (%)
+                      <DecimalInput value={pricing.wastePercent} onCommit={(wastePercent) => update({ wastePercent })} className="w-full text-xs" />
+                    </label>
+                    <label className="flex flex-col">
+                      TVA
+                      <select
+                        value={pricing.vatRate}
+                        onChange={(e) => update({ vatRate: Number(e.target.value) })}
+                        className="w-full border border-gray-300 rounded px-1 py-0.5 text-xs bg-white"
+                      >
+                        {(VAT_RATES.includes(pricing.vatRate) ? VAT_RATES : [...VAT_RATES, pricing.vatRate]).map(rate => (
+                          <option key={rate} value={rate}>{formatPercent(rate)}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <p className="col-span-3 text-gray-400">
+                      {formatNumber(line.quantity, line.decimals)} {unit}
+                      {line.wastePercent > 0 && ` + ${formatPercent(line.wastePercent)} = ${formatNumber(line.billedQuantity, line.decimals)} ${unit}`}
+                      {` × ${formatCurrency(line.unitPrice)}`}
+                    </p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          <div className="px-3 py-2 bg-gray-50 text-xs space-y-0.5">
+            <div className="flex justify-between text-gray-600"><span>Total HT</span><span>{formatCurrency(costs.totalHT)}</span></div>
+            {costs.vatLines.map(v => (
+              <div key={v.rate} className="flex justify-between text-gray-500">
+                <span>TVA {formatPercent(v.rate)}</span><span>{formatCurrency(v.vat)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold text-gray-800 text-sm pt-1 border-t border-gray-200"><span>Total TTC</span><span>{formatCurrency(costs.totalTTC)}</span></div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CostPanel;
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { DerivedFormula, DerivedQuantity, DerivedUnit, Layer, Shape, UnitSettings } from '../types';
+import { X, Sigma } from 'lucide-react';
+import { DERIVED_FORMULAS, DERIVED_UNITS, computeDerivedQuantity, derivedUnitsFor, formatDerivedQuantity, resolveDerivedUnit } from '../services/derived';
+import { formatNumber, layerTotal, layerQuantityKind, parseDecimal, resolveUnitSettings, unitLabel } from '../services/units';
+
+interface DerivedQuantityModalProps {
+  layer: Layer | null;
+  shapes: Shape[];
+  units: UnitSettings;
+  onClose: () => void;
+  onSave: (id: string, derived: DerivedQuantity | undefined) => void;
+}
+
+const selectClass = 'w-full border border-gray-300 rounded-md px-2 py-1 text-sm bg-white';
+
+const defaultDerived = (layer: Layer): DerivedQuantity => layerQuantityKind(layer) === 'area'
+  ? { label: 'Volume', formula: 'thickness', parameter: 0.2, unit: 'm3' }
+  : { label: 'Surface de mur', formula: 'height', parameter: 2.5, unit: 'm2' };
+
+const DerivedQuantityModal: React.FC<DerivedQuantityModalProps> = ({ layer, shapes, units, onClose, onSave }) => {
+  const [draft, setDraft] = useState<DerivedQuantity | null>(null);
+  const [parameterText, setParameterText] = useState('');
+
+  useEffect(() => {
+    if (!layer) return;
+    const initial = layer.derived ? { ...layer.derived, unit: resolveDerivedUnit(layer.derived, layer) } : defaultDerived(layer);
+    setDraft(initial);
+    setParameterText(String(initial.parameter).replace('.', ','));
+  }, [layer]);
+
+  if (!layer || !draft) return null;
+
+  const layerUnits = resolveUnitSettings(units, layer);
+  const parameter = parseDecimal(parameterText);
+  const isValid = parameter !== null && parameter >= 0 && draft.label.trim() !== '';
+  const preview = isValid && parameter !== null ? computeDerivedQuantity({ ...draft, parameter }, layer, shapes, layerUnits) : null;
+
+  const unitOptions = derivedUnitsFor(draft.formula, layer);
+  // The unit is kept when it still makes sense with the new formula
+  const changeFormula = (formula: DerivedFormula) => {
+    const options = derivedUnitsFor(formula, layer);
+    setDraft({ ...draft, formula, unit: options.includes(draft.unit) ? draft.unit : options[0] });
+  };
+
+  const handleSave = () => {
+    if (!isValid || parameter === null) return;
+    onSave(layer.id, { ...draft, label: draft.label.trim(), parameter });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Sigma className="w-5 h-5 text-blue-600" />
+            Quantité dérivée
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 text-xs text-gray-500">
+          <p className="text-sm text-gray-700">
+            <span className="font-semibold">{layer.name}</span> : {formatNumber(layerTotal(layer, shapes, layerUnits), layerUnits.decimals)} {unitLabel(layerQuantityKind(layer), layerUnits)}
+          </p>
+          <label className="block">
+            Libellé
+            <input
+              value={draft.label}
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+              className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm"
+              placeholder="ex: Volume de béton"
+            />
+          </label>
+          <div className="grid grid-cols-3 gap-2">
+            <label>
+              Formule
+              <select value={draft.formula} onChange={(e) => changeFormula(e.target.value as DerivedFormula)} className={selectClass}>
+                {Object.entries(DERIVED_FORMULAS).map(([id, formula]) => <option key={id} value={id}>{formula.name}</option>)}
+              </select>
+            </label>
+            <label>
+              {DERIVED_FORMULAS[draft.formula].parameterLabel}
+              <input
+                value={parameterText}
+                inputMode="decimal"
+                onChange={(e) => setParameterText(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                className={`w-full border rounded-md px-2 py-1 text-sm text-right ${isValid ? 'border-gray-300' : 'border-red-400'}`}
+              />
+            </label>
+            <label>
+              Unité
+              <select value={draft.unit} onChange={(e) => setDraft({ ...draft, unit: e.target.value as DerivedUnit })} className={selectClass}>
+                {unitOptions.map(id => <option key={id} value={id}>{DERIVED_UNITS[id].name} ({DERIVED_UNITS[id].label})</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-[10px] text-gray-400">{DERIVED_FORMULAS[draft.formula].example}</p>
+          <p className="text-sm text-gray-700">
+            Résultat : <span className="font-bold">{preview !== null ? formatDerivedQuantity(preview, draft, layer, layerUnits) : '—'}</span>
+          </p>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-between">
+          <button
+            onClick={() => { onSave(layer.id, undefined); onClose(); }}
+            disabled={!layer.derived}
+            className="px-4 py-2 text-sm text-red-600 hover:bg-red-50 rounded-md disabled:opacity-0"
+          >
+            Supprimer
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Annuler</button>
+            <button
+              onClick={handleSave}
+              disabled={!isValid}
+              className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium disabled:opacity-50"
+            >
+              Appliquer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DerivedQuantityModal;
@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Layer, LayerGroup, Shape, UnitSettings } from '../types';
+import { X, Download, FileDown, Loader2 } from 'lucide-react';
+import { exportLayersToKml } from '../services/kmlExport';
+import { exportLayersToGeoJson } from '../services/geojson';
+import { buildQuantitySections, exportQuantitiesToCsv, exportQuantitiesToXlsx } from '../services/quantities';
+import { generateReportPdf } from '../services/report';
+import { computeCostSummary } from '../services/costs';
+import { downloadFile, toSafeFilename } from '../services/download';
+import { TileSource } from '../services/baseLayers';
+
+type ExportFormat = 'kml' | 'geojson' | 'csv' | 'xlsx' | 'pdf';
+
+interface ExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectName: string;
+  layers: Layer[];
+  groups: LayerGroup[];
+  shapes: Shape[];
+  layerTotals: Record<string, number>;
+  units: UnitSettings;
+  tiles?: TileSource[];
+  analysis: string;
+}
+
+const FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'kml', label: 'KML', description: 'Google Earth, un dossier par calque' },
+  { id: 'geojson', label: 'GeoJSON', description: 'QGIS / SIG, une entité par forme' },
+  { id: 'csv', label: 'CSV', description: 'Récapitulatif des quantités (;)' },
+  { id: 'xlsx', label: 'Excel (.xlsx)', description: 'Récapitulatif des quantités' },
+  { id: 'pdf', label: 'Rapport PDF', description: 'Plans, quantités et analyse' },
+];
+
+const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, projectName, layers, groups, shapes, layerTotals, units, tiles, analysis }) => {
+  const [format, setFormat] = useState<ExportFormat>('kml');
+  const [selectedLayerIds, setSelectedLayerIds] = useState<Set<string>>(new Set());
+  const [includeAnalysis, setIncludeAnalysis] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Preselect measurement layers each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setSelectedLayerIds(new Set(layers.filter(l => l.category === 'measurement').map(l => l.id)));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const toggleLayer = (id: string) => {
+    const next = new Set(selectedLayerIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedLayerIds(next);
+  };
+
+  const selectedLayers = layers.filter(l => selectedLayerIds.has(l.id));
+  const selectedShapes = shapes.filter(s => selectedLayerIds.has(s.layerId));
+  // The estimate follows the layer selection
+  const selectedCosts = computeCostSummary(selectedLayers, layerTotals, units);
+
+  const handleExport = async () => {
+    const baseName = toSafeFilename(projectName);
+    if (format === 'kml') {
+      downloadFile(exportLayersToKml(selectedLayers, selectedShapes, projectName, units), `${baseName}.kml`, 'application/vnd.google-earth.kml+xml');
+    } else if (format === 'geojson') {
+      downloadFile(exportLayersToGeoJson(selectedLayers, selectedShapes, units), `${baseName}.geojson`, 'application/geo+json');
+    } else if (format === 'csv') {
+      downloadFile(exportQuantitiesToCsv(buildQuantitySections(selectedLayers, selectedShapes, units), projectName, selectedCosts), `${baseName} - quantités.csv`, 'text/csv;charset=utf-8');
+    } else if (format === 'xlsx') {
+      downloadFile(exportQuantitiesToXlsx(buildQuantitySections(selectedLayers, selectedShapes, units), projectName, selectedCosts), `${baseName} - quantités.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    } else if (format === 'pdf') {
+      setIsGenerating(true);
+      try {
+        const pdf = await generateReportPdf({
+          projectName,
+          layers: selectedLayers,
+          groups,
+          shapes: selectedShapes,
+          layerTotals,
+          units,
+          tiles,
+          costs: selectedCosts,
+          analysis: includeAnalysis ? analysis : undefined
+        });
+        downloadFile(pdf, `${baseName} - rapport.pdf`, 'application/pdf');
+      } catch (err) {
+        console.error("Erreur génération PDF:", err);
+        alert("Erreur lors de la génération du rapport PDF.");
+        return;
+      } finally {
+        setIsGenerating(false);
+      }
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <FileDown className="w-5 h-5 text-blue-600" />
+            Exporter
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mb-2">Format</p>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMATS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setFormat(f.id)}
+                  className={`text-left p-2 rounded-md border transition-all ${format === f.id ? 'bg-blue-50 border-blue-500 ring-1 ring-blue-500' : 'bg-white border-gray-200 hover:border-blue-300'}`}
+                >
+                  <span className="block text-sm font-semibold text-gray-800">{f.label}</span>
+                  <span className="block text-[10px] text-gray-500">{f.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {format === 'pdf' && (
+            <label className={`flex items-center gap-2 text-sm ${analysis ? 'text-gray-700 cursor-pointer' : 'text-gray-400'}`}>
+              <input type="checkbox" checked={includeAnalysis && !!analysis} disabled={!analysis} onChange={(e) => setIncludeAnalysis(e.target.checked)} />
+              Inclure la dernière analyse IA
+              {!analysis && <span className="text-[10px] italic">(aucune analyse disponible)</span>}
+            </label>
+          )}
+
+          <div>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mb-2">Calques</p>
+            {layers.length === 0 && <p className="text-gray-400 text-center text-sm py-4 italic">Aucun calque.</p>}
+            {layers.map(layer => (
+              <label key={layer.id} className="flex items-center gap-2 py-1.5 px-2 rounded hover:bg-gray-50 cursor-pointer text-sm">
+                <input type="checkbox" checked={selectedLayerIds.has(layer.id)} onChange={() => toggleLayer(layer.id)} />
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: layer.color }} />
+                <span className="flex-1 truncate text-gray-800">{layer.name}</span>
+                <span className="text-[10px] text-gray-400">{shapes.filter(s => s.layerId === layer.id).length} forme(s)</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-md">Annuler</button>
+          <button
+            onClick={handleExport}
+            disabled={selectedLayers.length === 0 || isGenerating}
+            className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50"
+          >
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {isGenerating ? 'Génération...' : 'Télécharger'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportModal;
@@ -1,38 +1,95 @@
 
-import React, { useState } from 'react';
-import { Layer, BaseLayer, Shape } from '../types';
-import { Layers, Eye, EyeOff, Trash2, Plus, Ruler, Square, Map as MapIcon, Satellite, FolderOpen, ChevronDown, ChevronRight, X } from 'lucide-react';
+import React, { useState, useRef } from 'react';
+import { Layer, LayerGroup, BaseLayer, Shape, TileSourceConfig, UnitSettings } from '../types';
+import { Layers, Eye, EyeOff, Trash2, Plus, Ruler, Square, Map as MapIcon, Settings2, ChevronDown, ChevronRight, X, Sigma, Search, Folder, FolderPlus, GripVertical } from 'lucide-react';
+import { formatDisplayValue, formatNumber, formatQuantity, layerQuantityKind, resolveUnitSettings, shapeQuantityKind, sumDisplayValues, toDisplayValue, unitLabel } from '../services/units';
+import { computeDerivedQuantity, formatDerivedQuantity } from '../services/derived';
+import { matchesShapeFilter } from '../services/attributes';
+import { LayerDropTarget, childGroups, groupSubtotals, isLayerDisplayed, orderLayers } from '../services/layerGroups';
 
 interface LayerManagerProps {
   layers: Layer[];
+  groups: LayerGroup[];
   shapes: Shape[]; // Received shapes to list details
   activeLayerId: string | null;
-  layerTotals: Record<string, number>;
+  selectedShapeIds: string[];
+  layerTotals: Record<string, number>; // In each layer's display unit
+  tileSources: TileSourceConfig[];
+  missingTileSourceIds: string[]; // MBTiles sources whose file is not opened in this session
   baseLayer: BaseLayer;
-  onSetBaseLayer: (mode: BaseLayer) => void;
+  overlays: string[];
+  onSetBaseLayer: (id: BaseLayer) => void;
+  onToggleOverlay: (id: string) => void;
+  onManageTileSources: () => void;
   onSetActiveLayer: (id: string) => void;
   onAddLayer: (name: string, type: 'surface' | 'length', color: string) => void;
   onToggleVisibility: (id: string) => void;
   onDeleteLayer: (id: string) => void;
+  onRenameLayer: (id: string, name: string) => void;
+  onMoveLayer: (id: string, target: LayerDropTarget) => void;
+  onAddGroup: (parentId: string | null) => void;
+  onRenameGroup: (id: string, name: string) => void;
+  onDeleteGroup: (id: string) => void;
+  onToggleGroupVisibility: (id: string) => void;
+  onMoveGroup: (id: string, parentId: string | null) => void;
   onDeleteShape: (id: string) => void; // Ability to delete single shape from list
+  onRenameShape: (id: string, name: string) => void;
+  onSelectShape: (id: string, additive: boolean) => void;
+  onSelectShapes: (ids: string[], additive: boolean) => void;
+  onFocusShape: (id: string) => void; // Fly the map to the shape
   onUpdateLayerOpacity: (id: string, opacity: number) => void;
+  onEditDerived: (id: string) => void;
+  units: UnitSettings;
 }
 
 const PRESET_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899', '#f97316', '#06b6d4'];
 
+// Longer result lists are cut, the search has to be refined
+const MAX_SEARCH_RESULTS = 50;
+
+// Drop zone id of the measurement section header (moves out of any group)
+const ROOT_DROP_ID = 'root';
+
+interface DraggedItem {
+  kind: 'layer' | 'group';
+  id: string;
+}
+
+type DropPosition = 'before' | 'after' | 'inside';
+
 const LayerManager: React.FC<LayerManagerProps> = ({
   layers,
+  groups,
   shapes,
   activeLayerId,
+  selectedShapeIds,
   layerTotals,
+  tileSources,
+  missingTileSourceIds,
   baseLayer,
+  overlays,
   onSetBaseLayer,
+  onToggleOverlay,
+  onManageTileSources,
   onSetActiveLayer,
   onAddLayer,
   onToggleVisibility,
   onDeleteLayer,
+  onRenameLayer,
+  onMoveLayer,
+  onAddGroup,
+  onRenameGroup,
+  onDeleteGroup,
+  onToggleGroupVisibility,
+  onMoveGroup,
   onDeleteShape,
-  onUpdateLayerOpacity
+  onRenameShape,
+  onSelectShape,
+  onSelectShapes,
+  onFocusShape,
+  onUpdateLayerOpacity,
+  onEditDerived,
+  units
 }) => {
   const [isAdding, setIsAdding] = useState(false);
   const [newLayerName, setNewLayerName] = useState('');
@@ -41,6 +98,17 @@ const LayerManager: React.FC<LayerManagerProps> = ({
   
   // State to track expanded layers (for showing shape details)
   const [expandedLayers, setExpandedLayers] = useState<Set<string>>(new Set());
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState('');
+  const isFiltering = filter.trim() !== '';
+  const [dragged, setDragged] = useState<DraggedItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+  // Last clicked shape, start of a Shift-click range
+  const anchorShapeIdRef = useRef<string | null>(null);
+
+  const baseSources = tileSources.filter(s => !s.overlay);
+  const overlaySources = tileSources.filter(s => s.overlay);
+  const sourceLabel = (source: TileSourceConfig) => missingTileSourceIds.includes(source.id) ? `${source.name} (fichier à rouvrir)` : source.name;
 
   const handleAdd = () => {
     if (newLayerName.trim()) {
@@ -61,28 +129,158 @@ const LayerManager: React.FC<LayerManagerProps> = ({
     setExpandedLayers(newExpanded);
   };
 
-  const measurementLayers = layers.filter(l => l.category === 'measurement');
-  const kmlLayers = layers.filter(l => l.category === 'kml');
+  // Ctrl-click toggles, Shift-click selects the range from the last clicked shape of the same list
+  const handleShapeClick = (e: React.MouseEvent, shape: Shape, listedShapes: Shape[]) => {
+    e.stopPropagation();
+    const additive = e.ctrlKey || e.metaKey;
+    const anchorIndex = listedShapes.findIndex(s => s.id === anchorShapeIdRef.current);
+    if (e.shiftKey && anchorIndex >= 0) {
+      const index = listedShapes.findIndex(s => s.id === shape.id);
+      const range = listedShapes.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1);
+      onSelectShapes(range.map(s => s.id), additive);
+      return;
+    }
+    anchorShapeIdRef.current = shape.id;
+    onSelectShape(shape.id, additive);
+    if (!additive) onFocusShape(shape.id);
+  };
+
+  const focusShape = (id: string) => {
+    anchorShapeIdRef.current = id;
+    onSelectShape(id, false);
+    onFocusShape(id);
+  };
+
+  // Quantity as displayed in the layer, for value range searches (points have none)
+  const displayValueOf = (shape: Shape, layer: Layer) => shape.type === 'point' ? undefined : toDisplayValue(
+    shape.measuredValue,
+    layer.category === 'measurement' ? layerQuantityKind(layer) : shapeQuantityKind(shape),
+    resolveUnitSettings(units, layer)
+  );
+  const matchesFilter = (shape: Shape, layer: Layer) => matchesShapeFilter(shape, filter, displayValueOf(shape, layer));
+
+  const toggleGroupCollapse = (e: React.MouseEvent, groupId: string) => {
+    e.stopPropagation();
+    const next = new Set(collapsedGroups);
+    if (next.has(groupId)) next.delete(groupId);
+    else next.add(groupId);
+    setCollapsedGroups(next);
+  };
+
+  // --- Drag and drop ---
+
+  // Dragged through a grip, so that the opacity slider keeps working
+  const renderGrip = (item: DraggedItem) => (
+    <span
+      draggable
+      onClick={(e) => e.stopPropagation()}
+      onDragStart={(e) => {
+        e.stopPropagation();
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', item.id); // Firefox only starts a drag with data
+        const row = e.currentTarget.closest('[data-drag-row]');
+        if (row) e.dataTransfer.setDragImage(row, 10, 10);
+        setDragged(item);
+      }}
+      onDragEnd={endDrag}
+      className="cursor-grab text-gray-300 hover:text-gray-500 flex-shrink-0"
+      title="Glisser pour réordonner"
+    >
+      <GripVertical className="w-3 h-3" />
+    </span>
+  );
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const isGrouped = (layer: Layer) => !!layer.groupId && groups.some(g => g.id === layer.groupId);
+
+  // Layers drop next to another layer or inside a group, groups only inside a group
+  const acceptsDrop = (id: string, inside: boolean) => {
+    if (!dragged || dragged.id === id) return false;
+    if (!inside) return dragged.kind === 'layer' && layers.some(l => l.id === id);
+    return true;
+  };
+
+  const handleDragOver = (e: React.DragEvent, id: string, inside: boolean) => {
+    if (!acceptsDrop(id, inside)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position: DropPosition = inside ? 'inside' : e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.id !== id || dropTarget.position !== position) setDropTarget({ id, position });
+  };
+
+  const handleDrop = (e: React.DragEvent, id: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (dragged && dropTarget?.id === id) {
+      const groupId = id === ROOT_DROP_ID ? null : id;
+      if (dragged.kind === 'group') onMoveGroup(dragged.id, groupId);
+      else if (dropTarget.position === 'inside') onMoveLayer(dragged.id, { groupId });
+      else onMoveLayer(dragged.id, { layerId: id, position: dropTarget.position });
+    }
+    endDrag();
+  };
+
+  const dropZoneProps = (id: string, inside: boolean) => ({
+    'data-drag-row': true,
+    onDragOver: (e: React.DragEvent) => handleDragOver(e, id, inside),
+    onDragLeave: () => { if (dropTarget?.id === id) setDropTarget(null); },
+    onDrop: (e: React.DragEvent) => handleDrop(e, id)
+  });
+
+  const dropClass = (id: string) => {
+    if (dropTarget?.id !== id) return '';
+    if (dropTarget.position === 'before') return 'border-t-4 border-t-blue-500';
+    if (dropTarget.position === 'after') return 'border-b-4 border-b-blue-500';
+    return 'ring-2 ring-blue-400';
+  };
+
+  // Rename through a prompt, like shape naming at creation
+  const promptRename = (e: React.MouseEvent, currentName: string, onRename: (name: string) => void) => {
+    e.stopPropagation();
+    const name = window.prompt("Nouveau nom :", currentName);
+    if (name !== null && name.trim()) onRename(name.trim());
+  };
+
+  const ungroupedLayers = layers.filter(l => !isGrouped(l));
+  // Search hits across all layers, reference layers included, in list order
+  const searchResults = isFiltering
+    ? orderLayers(layers, groups).flatMap(layer => shapes.filter(s => s.layerId === layer.id && matchesFilter(s, layer)).map(shape => ({ shape, layer })))
+    : [];
 
   const renderLayerItem = (layer: Layer, isKml: boolean) => {
     const total = layerTotals[layer.id] || 0;
+    const layerUnits = resolveUnitSettings(units, layer);
+    const kind = layerQuantityKind(layer);
     const isActive = activeLayerId === layer.id;
     const isExpanded = expandedLayers.has(layer.id);
     const layerShapes = shapes.filter(s => s.layerId === layer.id);
+    // While filtering, every layer lists its matching shapes
+    const listedShapes = isFiltering ? layerShapes.filter(s => matchesFilter(s, layer)) : layerShapes;
+    const showShapes = !isKml && (isExpanded || isFiltering);
+    const derivedValue = layer.derived ? computeDerivedQuantity(layer.derived, layer, shapes, layerUnits) : null;
 
     return (
       <div 
         key={layer.id}
+        {...dropZoneProps(layer.id, false)}
         onClick={() => !isKml && onSetActiveLayer(layer.id)}
         className={`
           relative rounded-lg border transition-all shadow-sm mb-2 overflow-hidden
           ${isActive ? 'bg-white border-blue-500 ring-1 ring-blue-500 shadow-md' : 'bg-white border-gray-200'}
           ${!isKml ? 'cursor-pointer hover:border-blue-300' : ''}
+          ${layer.isVisible && !isLayerDisplayed(layer, groups) ? 'opacity-60' : ''}
+          ${dropClass(layer.id)}
         `}
       >
         <div className="p-3">
             <div className="flex items-start justify-between mb-2">
             <div className="flex items-center gap-2 overflow-hidden">
+                {renderGrip({ kind: 'layer', id: layer.id })}
                 {/* Expand Toggle */}
                 {!isKml && (
                     <button 
@@ -98,15 +296,28 @@ const LayerManager: React.FC<LayerManagerProps> = ({
                     style={{ backgroundColor: layer.color }}
                 />
                 <div className="flex flex-col overflow-hidden">
-                    <span className="font-semibold text-gray-800 truncate leading-tight" title={layer.name}>
+                    <span
+                        className="font-semibold text-gray-800 truncate leading-tight"
+                        title={`${layer.name} (double-clic pour renommer)`}
+                        onDoubleClick={(e) => promptRename(e, layer.name, name => onRenameLayer(layer.id, name))}
+                    >
                         {layer.name}
                     </span>
                     <span className="text-[10px] text-gray-400 uppercase tracking-wider">
-                        {isKml ? 'Import KML' : (layer.type === 'surface' ? 'Surface' : 'Linéaire')}
+                        {isKml ? 'Référence' : (layer.type === 'surface' ? 'Surface' : 'Linéaire')}
                     </span>
                 </div>
             </div>
             <div className="flex items-center gap-1">
+                {!isKml && (
+                    <button
+                    onClick={(e) => { e.stopPropagation(); onEditDerived(layer.id); }}
+                    className={`p-1.5 hover:bg-gray-100 rounded ${layer.derived ? 'text-blue-500 hover:text-blue-700' : 'text-gray-400 hover:text-gray-700'}`}
+                    title="Quantité dérivée"
+                    >
+                    <Sigma className="w-4 h-4" />
+                    </button>
+                )}
                 <button 
                 onClick={(e) => { e.stopPropagation(); onToggleVisibility(layer.id); }}
                 className="p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded"
@@ -143,26 +354,40 @@ const LayerManager: React.FC<LayerManagerProps> = ({
             {!isKml && (
                 <div className="text-right flex-1">
                     <span className="block text-xl font-bold text-gray-800 leading-none">
-                        {total.toLocaleString('fr-FR', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}
+                        {formatNumber(total, layerUnits.decimals)}
                     </span>
                     <span className="text-xs text-gray-500 font-medium">
-                        {layer.type === 'surface' ? 'm²' : 'm'}
+                        {unitLabel(kind, layerUnits)}
                     </span>
+                    {layer.derived && (
+                        <span className="block text-[11px] text-blue-600 font-medium truncate" title={layer.derived.label}>
+                            {layer.derived.label} : {derivedValue !== null ? formatDerivedQuantity(derivedValue, layer.derived, layer, layerUnits) : '—'}
+                        </span>
+                    )}
                 </div>
             )}
             </div>
         </div>
 
         {/* Shape Details List (Expanded) */}
-        {!isKml && isExpanded && layerShapes.length > 0 && (
+        {showShapes && listedShapes.length > 0 && (
             <div className="bg-gray-50 border-t border-gray-100 p-2 max-h-40 overflow-y-auto">
-                {layerShapes.map(shape => (
-                    <div key={shape.id} className="flex items-center justify-between text-xs py-1.5 border-b border-gray-200 last:border-0 hover:bg-gray-100 px-2 rounded">
-                        <span className="font-medium text-gray-700 truncate max-w-[50%]">{shape.name}</span>
+                {listedShapes.map(shape => (
+                    <div
+                        key={shape.id}
+                        onClick={(e) => handleShapeClick(e, shape, listedShapes)}
+                        className={`flex items-center justify-between text-xs py-1.5 border-b border-gray-200 last:border-0 px-2 rounded cursor-pointer select-none ${selectedShapeIds.includes(shape.id) ? 'bg-amber-100 hover:bg-amber-200' : 'hover:bg-gray-100'}`}
+                    >
+                        <span
+                            className="font-medium text-gray-700 truncate max-w-[50%]"
+                            title="Double-clic pour renommer"
+                            onDoubleClick={(e) => promptRename(e, shape.name, name => onRenameShape(shape.id, name))}
+                        >
+                            {shape.name}
+                        </span>
                         <div className="flex items-center gap-2">
                             <span className="text-gray-500">
-                                {shape.measuredValue.toLocaleString('fr-FR', { maximumFractionDigits: 1 })} 
-                                {layer.type === 'surface' ? ' m²' : ' m'}
+                                {formatQuantity(shape.measuredValue, kind, layerUnits)}
                             </span>
                             <button 
                                 onClick={(e) => { e.stopPropagation(); onDeleteShape(shape.id); }}
@@ -174,71 +399,132 @@ const LayerManager: React.FC<LayerManagerProps> = ({
                         </div>
                     </div>
                 ))}
+                {isFiltering && (
+                    <div className="flex justify-between text-xs px-2 pt-1.5 font-semibold text-gray-700">
+                        <span>Sous-total filtré ({listedShapes.length}/{layerShapes.length})</span>
+                        <span>{formatDisplayValue(sumDisplayValues(listedShapes.map(s => toDisplayValue(s.measuredValue, kind, layerUnits)), layerUnits), kind, layerUnits)}</span>
+                    </div>
+                )}
             </div>
         )}
-        {!isKml && isExpanded && layerShapes.length === 0 && (
+        {showShapes && listedShapes.length === 0 && (
              <div className="bg-gray-50 border-t border-gray-100 p-3 text-xs text-center text-gray-400 italic">
-                Aucune mesure enregistrée.
+                {isFiltering ? 'Aucune forme ne correspond au filtre.' : 'Aucune mesure enregistrée.'}
              </div>
         )}
       </div>
     );
   };
 
+  // Collapsible group header with the subtotals of everything it contains, then its sub-groups and layers
+  const renderGroup = (group: LayerGroup): React.ReactNode => {
+    const isCollapsed = collapsedGroups.has(group.id) && !isFiltering;
+    const subGroups = childGroups(groups, group.id);
+    const groupLayers = layers.filter(l => l.groupId === group.id);
+    const subtotals = groupSubtotals(group.id, layers, groups, layerTotals, units);
+
+    return (
+      <div key={group.id} className="mb-2">
+        <div
+          {...dropZoneProps(group.id, true)}
+          className={`flex items-center gap-1.5 px-2 py-1.5 rounded-md bg-gray-100 border border-gray-200 text-xs ${group.isVisible ? '' : 'opacity-60'} ${dropClass(group.id)}`}
+        >
+          {renderGrip({ kind: 'group', id: group.id })}
+          <button onClick={(e) => toggleGroupCollapse(e, group.id)} className="p-0.5 hover:bg-gray-200 rounded text-gray-400">
+            {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          </button>
+          <Folder className="w-3 h-3 text-gray-500 flex-shrink-0" />
+          <span
+            className="flex-1 font-semibold text-gray-700 truncate"
+            title={`${group.name} (double-clic pour renommer)`}
+            onDoubleClick={(e) => promptRename(e, group.name, name => onRenameGroup(group.id, name))}
+          >
+            {group.name}
+          </span>
+          <span className="text-[10px] text-gray-500 whitespace-nowrap">
+            {subtotals.map(s => `${formatNumber(s.value, s.decimals)} ${s.unit}`).join(' · ')}
+          </span>
+          <button onClick={() => onAddGroup(group.id)} className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-200 rounded" title="Nouveau sous-groupe">
+            <FolderPlus className="w-3 h-3" />
+          </button>
+          <button onClick={() => onToggleGroupVisibility(group.id)} className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-200 rounded" title={group.isVisible ? "Masquer le groupe" : "Afficher le groupe"}>
+            {group.isVisible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+          </button>
+          <button onClick={() => onDeleteGroup(group.id)} className="p-1 text-red-300 hover:text-red-500 hover:bg-red-50 rounded" title="Supprimer le groupe (les calques sont conservés)">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        </div>
+        {!isCollapsed && (
+          <div className="ml-2 pl-2 mt-2 border-l-2 border-gray-200">
+            {subGroups.map(renderGroup)}
+            {groupLayers.map(l => renderLayerItem(l, l.category === 'kml'))}
+            {subGroups.length === 0 && groupLayers.length === 0 && (
+              <p className="text-[10px] text-gray-400 italic py-1">Glissez des calques dans ce groupe.</p>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="bg-white rounded-xl shadow-lg border border-gray-200 flex flex-col h-full overflow-hidden">
       {/* Background Selector */}
-      <div className="p-3 bg-gray-50 border-b border-gray-200 flex gap-2 shrink-0">
-         <button
-            onClick={() => onSetBaseLayer('plan')}
-            className={`flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-md border transition-all ${
-                baseLayer === 'plan' 
-                ? 'bg-white border-blue-500 text-blue-600 shadow-sm ring-1 ring-blue-500' 
-                : 'bg-gray-100 border-transparent text-gray-500 hover:bg-gray-200'
-            }`}
-         >
-            <MapIcon className="w-3 h-3" /> Plan
-         </button>
-         <button
-            onClick={() => onSetBaseLayer('satellite')}
-            className={`flex-1 flex items-center justify-center gap-2 py-2 text-xs font-medium rounded-md border transition-all ${
-                baseLayer === 'satellite' 
-                ? 'bg-gray-800 border-gray-900 text-white shadow-sm' 
-                : 'bg-gray-100 border-transparent text-gray-500 hover:bg-gray-200'
-            }`}
-         >
-            <Satellite className="w-3 h-3" /> Satellite
-         </button>
+      <div className="p-3 bg-gray-50 border-b border-gray-200 space-y-2 shrink-0">
+         <div className="flex items-center gap-2">
+            <MapIcon className="w-4 h-4 text-gray-400 shrink-0" />
+            <select
+               value={baseLayer}
+               onChange={(e) => onSetBaseLayer(e.target.value)}
+               className="flex-1 min-w-0 border border-gray-300 rounded-md px-2 py-1.5 text-xs bg-white"
+               title="Fond de carte"
+            >
+               {baseSources.map(s => <option key={s.id} value={s.id}>{sourceLabel(s)}</option>)}
+            </select>
+            <button onClick={onManageTileSources} className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-white rounded-md border border-transparent hover:border-gray-200" title="Gérer les fonds de carte (WMS, WMTS, MBTiles...)">
+               <Settings2 className="w-4 h-4" />
+            </button>
+         </div>
+         {overlaySources.length > 0 && (
+            <div className="flex flex-wrap gap-x-3 gap-y-1 pl-6">
+               {overlaySources.map(s => (
+                  <label key={s.id} className="flex items-center gap-1 text-xs text-gray-600 cursor-pointer">
+                     <input type="checkbox" checked={overlays.includes(s.id)} onChange={() => onToggleOverlay(s.id)} />
+                     {sourceLabel(s)}
+                  </label>
+               ))}
+            </div>
+         )}
       </div>
 
       <div className="flex-1 overflow-y-auto bg-gray-50/50">
-          {/* KML Section */}
-          {kmlLayers.length > 0 && (
-            <div className="mb-4">
-                <div className="px-4 py-2 bg-purple-50 border-b border-purple-100 text-purple-800 text-xs font-bold uppercase tracking-wider flex items-center gap-2 sticky top-0 z-10 backdrop-blur-sm">
-                    <FolderOpen className="w-3 h-3" />
-                    Calques Importés (KML)
-                </div>
-                <div className="p-2">
-                    {kmlLayers.map(l => renderLayerItem(l, true))}
-                </div>
-            </div>
-          )}
-
-          {/* Measurement Section */}
+          {/* Layers, measurement and reference (KML / GeoJSON): the list order is the draw order */}
           <div>
-              <div className="px-4 py-2 bg-gray-100 border-y border-gray-200 text-gray-600 text-xs font-bold uppercase tracking-wider flex justify-between items-center sticky top-0 z-10">
+              <div
+                {...dropZoneProps(ROOT_DROP_ID, true)}
+                className={`px-4 py-2 bg-gray-100 border-y border-gray-200 text-gray-600 text-xs font-bold uppercase tracking-wider flex justify-between items-center sticky top-0 z-10 ${dropClass(ROOT_DROP_ID)}`}
+                title={dragged ? "Déposer ici pour sortir du groupe" : undefined}
+              >
                   <div className="flex items-center gap-2">
                     <Layers className="w-3 h-3" />
-                    Calques de Métré
+                    Calques
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => onAddGroup(null)}
+                      className="p-1 hover:bg-gray-200 rounded-full transition-colors border border-gray-300 bg-white"
+                      title="Nouveau groupe (lot)"
+                    >
+                      <FolderPlus className="w-3 h-3 text-gray-600" />
+                    </button>
+                    <button 
+                      onClick={() => setIsAdding(!isAdding)}
+                      className="p-1 hover:bg-gray-200 rounded-full transition-colors border border-gray-300 bg-white"
+                      title="Nouveau calque"
+                    >
+                      <Plus className="w-3 h-3 text-gray-600" />
+                    </button>
                   </div>
-                  <button 
-                    onClick={() => setIsAdding(!isAdding)}
-                    className="p-1 hover:bg-gray-200 rounded-full transition-colors border border-gray-300 bg-white"
-                    title="Nouveau calque"
-                  >
-                    <Plus className="w-3 h-3 text-gray-600" />
-                  </button>
               </div>
 
               {isAdding && (
@@ -288,11 +574,58 @@ const LayerManager: React.FC<LayerManagerProps> = ({
                 </div>
               )}
 
+              {shapes.length > 0 && (
+                <div className="px-2 pt-2">
+                  <div className="relative flex items-center">
+                    <Search className="absolute left-2 w-3 h-3 text-gray-400" />
+                    <input
+                      value={filter}
+                      onChange={(e) => setFilter(e.target.value)}
+                      placeholder="Rechercher : texte, #tag, lot=02, clé=valeur, >100"
+                      title="Termes combinés : texte, #tag, lot=02, clé=valeur, quantité >100, <=50 ou 10..20 (unité du calque)"
+                      className="w-full pl-7 pr-7 py-1.5 border border-gray-200 rounded-md text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {isFiltering && (
+                      <button onClick={() => setFilter('')} className="absolute right-2 text-gray-400 hover:text-gray-700" title="Effacer la recherche">
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  {isFiltering && (
+                    <div className="mt-1 bg-white border border-gray-200 rounded-md max-h-48 overflow-y-auto">
+                      <p className="px-2 py-1 text-[10px] text-gray-400 font-bold uppercase border-b border-gray-100">
+                        {searchResults.length} résultat{searchResults.length > 1 ? 's' : ''}
+                      </p>
+                      {searchResults.slice(0, MAX_SEARCH_RESULTS).map(({ shape, layer }) => (
+                        <button
+                          key={shape.id}
+                          onClick={() => focusShape(shape.id)}
+                          className={`w-full flex items-center gap-2 px-2 py-1 text-xs text-left ${selectedShapeIds.includes(shape.id) ? 'bg-amber-100' : 'hover:bg-blue-50'}`}
+                          title={`${layer.name} : ${shape.name}`}
+                        >
+                          <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: layer.color }} />
+                          <span className="flex-1 truncate text-gray-700">{shape.name}</span>
+                          {shape.type !== 'point' && (
+                            <span className="text-gray-500 whitespace-nowrap">
+                              {formatQuantity(shape.measuredValue, layer.category === 'measurement' ? layerQuantityKind(layer) : shapeQuantityKind(shape), resolveUnitSettings(units, layer))}
+                            </span>
+                          )}
+                        </button>
+                      ))}
+                      {searchResults.length > MAX_SEARCH_RESULTS && (
+                        <p className="px-2 py-1 text-[10px] text-gray-400 italic">… et {searchResults.length - MAX_SEARCH_RESULTS} autres, affinez la recherche.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="p-2">
-                {measurementLayers.length === 0 && (
-                   <p className="text-gray-400 text-center text-sm py-4 italic">Aucun calque de métré.</p>
+                {layers.length === 0 && groups.length === 0 && (
+                   <p className="text-gray-400 text-center text-sm py-4 italic">Aucun calque.</p>
                 )}
-                {measurementLayers.map(l => renderLayerItem(l, false))}
+                {childGroups(groups, null).map(renderGroup)}
+                {ungroupedLayers.map(l => renderLayerItem(l, l.category === 'kml'))}
               </div>
           </div>
       </div>
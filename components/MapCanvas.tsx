@@ -1,10 +1,17 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { MapContainer, TileLayer, Polygon, Polyline, Marker, useMap, useMapEvents, FeatureGroup } from 'react-leaflet';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { MapContainer, TileLayer, WMSTileLayer, Polygon, Polyline, Marker, CircleMarker, Rectangle, Tooltip, useMap, useMapEvents, FeatureGroup } from 'react-leaflet';
 import L from 'leaflet';
-import * as turf from '@turf/turf';
-import { Layer, Shape, ToolMode, GeoPoint, BaseLayer } from '../types';
-import { Check, Plus, Trash2, X } from 'lucide-react';
+import { Layer, LayerGroup, Shape, ToolMode, GeoPoint, SnapSettings, TileSourceConfig, UnitSettings } from '../types';
+import { Check, CircleDashed, Combine, Expand, Plus, Scissors, SquareDashed, SquareMinus, Trash2, X } from 'lucide-react';
+import { circlePoints, closeParallelPoint, computeMeasuredValue, constrainAngle, corridorPoints, midpoint, offsetPoint, rectanglePoints, segmentBearing, segmentLength } from '../services/geometry';
+import { MAX_TILE_ZOOM, xyzTemplate } from '../services/baseLayers';
+import { MbTilesArchive, mbTilesObjectUrl } from '../services/mbtiles';
+import { findSnapTarget, SnapTarget } from '../services/snapping';
+import { formatArea, formatLength, formatQuantity, parseDecimal, resolveUnitSettings, shapeQuantityKind, unitFactor, unitLabel } from '../services/units';
+import { GeometryOperation } from '../services/geometryOps';
+import { isLayerDisplayed, orderLayers } from '../services/layerGroups';
+import { generateId } from '../services/ids';
 
 // --- LEAFLET ICON FIX ---
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -16,14 +23,6 @@ L.Icon.Default.mergeOptions({
 
 // --- HELPER COMPONENTS ---
 
-// Safe ID Generator
-const generateId = () => {
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-        return crypto.randomUUID();
-    }
-    return `shape-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-};
-
 const MapController: React.FC<{ center: GeoPoint | null; zoom: number }> = ({ center, zoom }) => {
     const map = useMap();
     useEffect(() => {
@@ -34,18 +33,197 @@ const MapController: React.FC<{ center: GeoPoint | null; zoom: number }> = ({ ce
     return null;
 };
 
+// Flies to the bounds of the requested points (zoom to shape); the right margin leaves room for the properties panel
+const BoundsController: React.FC<{ points: GeoPoint[] | null }> = ({ points }) => {
+    const map = useMap();
+    useEffect(() => {
+        if (points && points.length > 0) {
+            const bounds = L.latLngBounds(points.map(p => [p.lat, p.lng] as [number, number]));
+            map.flyToBounds(bounds, { paddingTopLeft: [60, 60], paddingBottomRight: [340, 120], maxZoom: 20, duration: 1 });
+        }
+    }, [points, map]);
+    return null;
+};
+
+const LOCATION_MARKER_DURATION_MS = 15000;
+
+const locationIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:16px;height:16px;background:#dc2626;border:3px solid #fff;border-radius:50%;box-shadow:0 0 0 6px rgba(220,38,38,.3),0 1px 3px rgba(0,0,0,.5)"></div>',
+  iconSize: [16, 16],
+  iconAnchor: [8, 8]
+});
+
+// Marker on a searched location, removed after a while
+const LocationMarker: React.FC<{ location: { point: GeoPoint; label: string } | null }> = ({ location }) => {
+    const [isVisible, setIsVisible] = useState(false);
+    useEffect(() => {
+        if (!location) return;
+        setIsVisible(true);
+        const timer = window.setTimeout(() => setIsVisible(false), LOCATION_MARKER_DURATION_MS);
+        return () => window.clearTimeout(timer);
+    }, [location]);
+    if (!location || !isVisible) return null;
+    return (
+        <Marker position={[location.point.lat, location.point.lng]} icon={locationIcon} interactive={false}>
+            <Tooltip permanent direction="top" offset={[0, -10]}>{location.label}</Tooltip>
+        </Marker>
+    );
+};
+
+// Tiles of an opened MBTiles file, read from the file as they are needed
+class MbTilesGridLayer extends L.GridLayer {
+    constructor(private archive: MbTilesArchive, options: L.GridLayerOptions) {
+        super(options);
+    }
+
+    createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+        const tile = document.createElement('img');
+        tile.alt = '';
+        mbTilesObjectUrl(this.archive, coords.z, coords.x, coords.y).then(url => {
+            if (!url) {
+                done(undefined, tile);
+                return;
+            }
+            tile.onload = tile.onerror = () => {
+                URL.revokeObjectURL(url);
+                done(undefined, tile);
+            };
+            tile.src = url;
+        });
+        return tile;
+    }
+}
+
+const MbTilesLayer: React.FC<{ archive: MbTilesArchive; attribution: string; zIndex: number }> = ({ archive, attribution, zIndex }) => {
+    const map = useMap();
+    useEffect(() => {
+        const layer = new MbTilesGridLayer(archive, {
+            minNativeZoom: archive.minZoom,
+            maxNativeZoom: archive.maxZoom,
+            maxZoom: MAX_TILE_ZOOM,
+            attribution,
+            zIndex
+        }).addTo(map);
+        return () => { layer.remove(); };
+    }, [map, archive, attribution, zIndex]);
+    return null;
+};
+
+// One registered tile source; an MBTiles source draws nothing until its file is opened
+const TileSourceLayer: React.FC<{ source: TileSourceConfig; archive?: MbTilesArchive; zIndex: number }> = ({ source, archive, zIndex }) => {
+    if (source.kind === 'mbtiles') {
+        return archive ? <MbTilesLayer archive={archive} attribution={source.attribution} zIndex={zIndex} /> : null;
+    }
+    if (source.kind === 'wms') {
+        return (
+            <WMSTileLayer
+                url={source.url}
+                params={{ layers: source.wmsLayers || '', format: source.wmsFormat || 'image/png', transparent: true }}
+                maxZoom={MAX_TILE_ZOOM}
+                attribution={source.attribution}
+                zIndex={zIndex}
+            />
+        );
+    }
+    return (
+        <TileLayer
+            url={xyzTemplate(source)}
+            maxNativeZoom={source.maxZoom}
+            maxZoom={MAX_TILE_ZOOM}
+            attribution={source.attribution}
+            zIndex={zIndex}
+        />
+    );
+};
+
+// Reports the current view so it can be persisted with the project
+const ViewTracker: React.FC<{ onViewChange: (center: GeoPoint, zoom: number) => void }> = ({ onViewChange }) => {
+    const map = useMapEvents({
+        moveend() {
+            const center = map.getCenter();
+            onViewChange({ lat: center.lat, lng: center.lng }, map.getZoom());
+        }
+    });
+    return null;
+};
+
+interface BoxSelectorProps {
+    shapes: Shape[]; // Selectable shapes
+    onSelect: (ids: string[], additive: boolean) => void;
+}
+
+// Shift+drag draws a selection box: shapes lying entirely inside it are selected (Ctrl+Shift adds to the selection)
+const BoxSelector: React.FC<BoxSelectorProps> = ({ shapes, onSelect }) => {
+    const [box, setBox] = useState<{ start: L.LatLng; end: L.LatLng; additive: boolean } | null>(null);
+    const boxRef = useRef(box);
+    boxRef.current = box;
+
+    const map = useMapEvents({
+        mousedown(e) {
+            if (!e.originalEvent.shiftKey) return;
+            map.dragging.disable();
+            setBox({ start: e.latlng, end: e.latlng, additive: e.originalEvent.ctrlKey || e.originalEvent.metaKey });
+        },
+        mousemove(e) {
+            if (boxRef.current) setBox({ ...boxRef.current, end: e.latlng });
+        }
+    });
+
+    const isDragging = box !== null;
+
+    // Released on window: the pointer may leave the map while dragging
+    useEffect(() => {
+        if (!isDragging) return;
+        const finish = () => {
+            const current = boxRef.current;
+            map.dragging.enable();
+            setBox(null);
+            if (!current) return;
+            // A plain shift-click is left to the shapes' click handlers
+            if (map.latLngToContainerPoint(current.start).distanceTo(map.latLngToContainerPoint(current.end)) < 4) return;
+            const bounds = L.latLngBounds(current.start, current.end);
+            const ids = shapes.filter(s => s.points.every(p => bounds.contains([p.lat, p.lng]))).map(s => s.id);
+            onSelect(ids, current.additive);
+        };
+        window.addEventListener('mouseup', finish);
+        return () => window.removeEventListener('mouseup', finish);
+    }, [isDragging, map, shapes, onSelect]);
+
+    if (!box) return null;
+    return (
+        <Rectangle
+            bounds={L.latLngBounds(box.start, box.end)}
+            interactive={false}
+            pathOptions={{ color: '#2563eb', weight: 1, dashArray: '4, 4', fillOpacity: 0.1 }}
+        />
+    );
+};
+
 // --- DRAWING MANAGER ---
+// Relative angles are measured from the previous segment's direction, bearings from north
+type AngleMode = 'relative' | 'bearing';
+
 interface DrawingManagerProps {
   mode: ToolMode;
   color: string;
+  snapShapes: Shape[];
+  snapSettings: SnapSettings;
+  units: UnitSettings;
   onFinish: (points: GeoPoint[]) => void;
   onCancel: () => void;
 }
 
-const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish, onCancel }) => {
+const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, snapShapes, snapSettings, units, onFinish, onCancel }) => {
   const [points, setPoints] = useState<GeoPoint[]>([]);
   const [cursorPos, setCursorPos] = useState<GeoPoint | null>(null);
+  const [snap, setSnap] = useState<SnapTarget | null>(null);
+  // Typed next segment (in the layer's length unit, degrees)
+  const [lengthInput, setLengthInput] = useState('');
+  const [angleInput, setAngleInput] = useState('');
+  const [angleMode, setAngleMode] = useState<AngleMode>('relative');
   const finishBtnRef = useRef<HTMLDivElement>(null);
+  const lengthInputRef = useRef<HTMLInputElement>(null);
 
   // Refs for callbacks to prevent stale closures
   const onFinishRef = useRef(onFinish);
@@ -62,29 +240,121 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
         L.DomEvent.disableClickPropagation(finishBtnRef.current);
         L.DomEvent.disableScrollPropagation(finishBtnRef.current);
     }
-  }, [points.length]); // Re-run when button appears
+  }, [points.length > 0]); // Re-run when the panel appears
+
+  // Holes are drawn like polygons
+  const isAreaMode = mode === ToolMode.DRAW_POLYGON || mode === ToolMode.DRAW_HOLE;
+
+  // Centerline-based tools and cut lines finish like lines
+  const isPathMode = mode === ToolMode.DRAW_LINE || mode === ToolMode.DRAW_CORRIDOR || mode === ToolMode.DRAW_SPLIT;
+
+  // Switching tools discards the points of the previous one
+  useEffect(() => { setPoints([]); }, [mode]);
 
   const handleTryFinish = useCallback(() => {
       const currentPoints = pointsRef.current;
       
-      if (mode === ToolMode.DRAW_POLYGON && currentPoints.length >= 3) {
+      if (isAreaMode && currentPoints.length >= 3) {
           onFinishRef.current(currentPoints);
           setPoints([]); 
-      } else if (mode === ToolMode.DRAW_LINE && currentPoints.length >= 2) {
+      } else if (isPathMode && currentPoints.length >= 2) {
           onFinishRef.current(currentPoints);
           setPoints([]); 
       }
-  }, [mode]);
+  }, [isAreaMode, isPathMode]);
+
+  // Rectangle and circle outlines from their defining clicks (null while incomplete)
+  const buildOutline = (defining: GeoPoint[]): GeoPoint[] | null => {
+      if (mode === ToolMode.DRAW_RECTANGLE && defining.length === 3) return rectanglePoints(defining[0], defining[1], defining[2]);
+      if (mode === ToolMode.DRAW_CIRCLE && defining.length === 2) return circlePoints(defining[0], segmentLength(defining[0], defining[1]));
+      return null;
+  };
+
+  // Rectangles and circles finish on their last defining click
+  const addPoint = (point: GeoPoint) => {
+      const next = [...pointsRef.current, point];
+      const isLastClick = (mode === ToolMode.DRAW_RECTANGLE && next.length === 3) || (mode === ToolMode.DRAW_CIRCLE && next.length === 2);
+      if (isLastClick) {
+          const outline = buildOutline(next);
+          // Degenerate (zero width or radius): wait for another click
+          if (!outline) return;
+          onFinishRef.current(outline);
+          pointsRef.current = [];
+          setPoints([]);
+          return;
+      }
+      pointsRef.current = next;
+      setPoints(next);
+  };
+
+  const handleCloseParallel = useCallback(() => {
+      const currentPoints = pointsRef.current;
+      if (!isAreaMode || currentPoints.length < 3) return;
+      const closingPoint = closeParallelPoint(currentPoints);
+      onFinishRef.current(closingPoint ? [...currentPoints, closingPoint] : currentPoints);
+      setPoints([]);
+  }, [isAreaMode]);
+
+  // Point defined by the typed length; without an angle the segment follows the cursor
+  const typedPoint = useMemo((): GeoPoint | null => {
+      const typedLength = parseDecimal(lengthInput);
+      if (points.length === 0 || typedLength === null || typedLength <= 0) return null;
+      const length = typedLength / unitFactor('length', units);
+      const last = points[points.length - 1];
+      const previousBearing = points.length >= 2 ? segmentBearing(points[points.length - 2], last) : null;
+      const angle = parseDecimal(angleInput);
+      let bearing: number;
+      if (angle !== null) bearing = angleMode === 'relative' && previousBearing !== null ? previousBearing + angle : angle;
+      else if (cursorPos) bearing = segmentBearing(last, cursorPos);
+      else bearing = previousBearing ?? 0;
+      return offsetPoint(last, length, bearing);
+  }, [points, lengthInput, angleInput, angleMode, cursorPos, units]);
+
+  const applyTypedSegment = () => {
+      if (!typedPoint) return;
+      addPoint(typedPoint);
+      setLengthInput('');
+      setAngleInput('');
+      lengthInputRef.current?.focus();
+  };
+
+  // Shift constrains to 45° steps, otherwise Alt temporarily disables snapping
+  const resolveCursor = (e: L.LeafletMouseEvent): { point: GeoPoint; snap: SnapTarget | null } => {
+      const latlng = { lat: e.latlng.lat, lng: e.latlng.lng };
+      const current = pointsRef.current;
+      if (e.originalEvent.shiftKey && current.length > 0) return { point: constrainAngle(current, latlng), snap: null };
+      if (e.originalEvent.altKey) return { point: latlng, snap: null };
+      const target = findSnapTarget(e.containerPoint, snapShapes, current, p => map.latLngToContainerPoint([p.lat, p.lng]), snapSettings);
+      return { point: target ? target.point : latlng, snap: target };
+  };
 
   // Leaflet Events
-  useMapEvents({
+  const map = useMapEvents({
     click(e) {
         if (mode === ToolMode.SELECT) return;
-        setPoints(prev => [...prev, { lat: e.latlng.lat, lng: e.latlng.lng }]);
+        const { point, snap: target } = resolveCursor(e);
+        const current = pointsRef.current;
+        if (target && target.kind === 'vertex' && current.length > 0) {
+            const first = current[0];
+            const last = current[current.length - 1];
+            // Snapping onto the first point closes the ring, onto the last one is a no-op
+            if (target.point.lat === first.lat && target.point.lng === first.lng && isAreaMode && current.length >= 3) {
+                handleTryFinish();
+                return;
+            }
+            if (target.point.lat === last.lat && target.point.lng === last.lng) return;
+        }
+        addPoint(point);
     },
     mousemove(e) {
         if (mode === ToolMode.SELECT) return;
-        setCursorPos({ lat: e.latlng.lat, lng: e.latlng.lng });
+        const { point, snap: target } = resolveCursor(e);
+        setSnap(target);
+        setCursorPos(point);
+    },
+    mouseout() {
+        setSnap(null);
+        setCursorPos(null);
     },
     contextmenu(e) {
         // Right click finish
@@ -97,6 +367,19 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
   useEffect(() => {
       const handleKey = (e: KeyboardEvent) => {
           if (mode === ToolMode.SELECT) return;
+          // The segment inputs handle their own keys
+          if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+          // Typing a number starts the length entry
+          if (/^[0-9]$/.test(e.key) && !e.ctrlKey && !e.metaKey && pointsRef.current.length > 0) {
+              e.preventDefault();
+              setLengthInput(e.key);
+              lengthInputRef.current?.focus();
+              return;
+          }
+          if (e.key.toLowerCase() === 'p' && !e.ctrlKey && !e.metaKey) {
+              handleCloseParallel();
+              return;
+          }
           if (e.key === 'Enter') {
               e.preventDefault();
               e.stopPropagation();
@@ -104,15 +387,48 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
           }
           if (e.key === 'Escape') {
               setPoints([]);
+              setSnap(null);
+              setLengthInput('');
+              setAngleInput('');
               onCancelRef.current();
           }
       };
       window.addEventListener('keydown', handleKey);
       return () => window.removeEventListener('keydown', handleKey);
-  }, [mode, handleTryFinish]);
+  }, [mode, handleTryFinish, handleCloseParallel]);
 
   if (mode === ToolMode.SELECT) return null;
 
+  const previewEnd = typedPoint || cursorPos;
+
+  const previewOutline = previewEnd ? buildOutline([...points, previewEnd]) : null;
+
+  // Live readout next to the cursor
+  const showLength = (meters: number) => formatLength(meters, units);
+  const showArea = (squareMeters: number) => formatArea(squareMeters, units);
+  let readout: { position: L.Point; lines: string[] } | null = null;
+  if (points.length > 0 && previewEnd) {
+      const path = [...points, previewEnd];
+      const segment = computeMeasuredValue('polyline', [points[points.length - 1], previewEnd]);
+      let lines: string[];
+      if (mode === ToolMode.DRAW_CIRCLE) {
+          lines = [`Rayon : ${showLength(segment)}`];
+      } else if (mode === ToolMode.DRAW_RECTANGLE) {
+          lines = [points.length === 1 ? `Longueur : ${showLength(segment)}` : `Longueur : ${showLength(computeMeasuredValue('polyline', points))}`];
+      } else {
+          lines = [`Segment : ${showLength(segment)}`, `Cumul : ${showLength(computeMeasuredValue('polyline', path))}`];
+      }
+      const ring = previewOutline || (isAreaMode && path.length >= 3 ? path : null);
+      if (mode === ToolMode.DRAW_RECTANGLE && previewOutline) {
+          lines.push(`Largeur : ${showLength(computeMeasuredValue('polyline', previewOutline.slice(1, 3)))}`);
+      }
+      if (ring) {
+          lines.push(`Surface : ${showArea(computeMeasuredValue('polygon', ring))}`);
+          lines.push(`Périmètre : ${showLength(computeMeasuredValue('polyline', [...ring, ring[0]]))}`);
+      }
+      readout = { position: map.latLngToContainerPoint([previewEnd.lat, previewEnd.lng]), lines };
+  }
+
   return (
       <>
         {points.map((p, i) => (
@@ -123,7 +439,7 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
                     click: (e) => {
                         L.DomEvent.stopPropagation(e.originalEvent);
                         // Close loop logic
-                        if (i === 0 && mode === ToolMode.DRAW_POLYGON && points.length >= 3) {
+                        if (i === 0 && isAreaMode && points.length >= 3) {
                             handleTryFinish();
                         }
                     },
@@ -144,11 +460,11 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
             />
         )}
 
-        {points.length > 0 && cursorPos && (
+        {points.length > 0 && previewEnd && (
             <Polyline 
                 positions={[
                     [points[points.length - 1].lat, points[points.length - 1].lng],
-                    [cursorPos.lat, cursorPos.lng]
+                    [previewEnd.lat, previewEnd.lng]
                 ]}
                 dashArray="5, 10"
                 color={color}
@@ -157,7 +473,25 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
             />
         )}
 
-        {mode === ToolMode.DRAW_POLYGON && points.length >= 3 && (
+        {readout && (
+            <div
+                className="absolute z-[1000] pointer-events-none bg-gray-900/80 text-white text-[11px] leading-tight rounded px-2 py-1 whitespace-nowrap"
+                style={{ left: readout.position.x + 16, top: readout.position.y + 16 }}
+            >
+                {readout.lines.map(line => <div key={line}>{line}</div>)}
+            </div>
+        )}
+
+        {snap && (
+            <CircleMarker
+                center={[snap.point.lat, snap.point.lng]}
+                radius={snap.kind === 'vertex' ? 7 : 5}
+                interactive={false}
+                pathOptions={{ color: '#db2777', weight: 2, fillColor: snap.kind === 'vertex' ? '#ffffff' : '#db2777', fillOpacity: 1 }}
+            />
+        )}
+
+        {isAreaMode && points.length >= 3 && (
             <Polygon 
                 positions={points.map(p => [p.lat, p.lng])}
                 color={color}
@@ -166,21 +500,90 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
             />
         )}
 
-        {/* FINISH BUTTON */}
-        {((mode === ToolMode.DRAW_POLYGON && points.length >= 3) || (mode === ToolMode.DRAW_LINE && points.length >= 2)) && (
+        {previewOutline && (
+            <Polygon
+                positions={previewOutline.map(p => [p.lat, p.lng])}
+                color={color}
+                weight={2}
+                dashArray="5, 10"
+                fillOpacity={0.1}
+            />
+        )}
+
+        {/* SEGMENT INPUT + FINISH BUTTONS */}
+        {points.length > 0 && (
             <div className="leaflet-bottom leaflet-left" style={{ bottom: '80px', left: '50%', transform: 'translateX(-50%)', marginBottom: '0', pointerEvents: 'auto' }}>
-                 <div className="leaflet-control" ref={finishBtnRef}>
-                     <button 
-                        onClick={(e) => {
-                            e.preventDefault();
+                 <div className="leaflet-control flex items-center gap-2" ref={finishBtnRef}>
+                     <div
+                        className="bg-white rounded-full shadow-lg px-3 py-1.5 flex items-center gap-2 text-xs text-gray-600"
+                        onKeyDown={(e) => {
                             e.stopPropagation();
-                            handleTryFinish();
+                            if (e.key === 'Enter') {
+                                e.preventDefault();
+                                applyTypedSegment();
+                            }
+                            if (e.key === 'Escape') {
+                                setLengthInput('');
+                                setAngleInput('');
+                                (e.target as HTMLElement).blur();
+                            }
                         }}
-                        className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-full shadow-lg font-bold flex items-center gap-2 transition-transform active:scale-95 cursor-pointer"
                      >
-                         <Check className="w-5 h-5" />
-                         Terminer
-                     </button>
+                         <input
+                            ref={lengthInputRef}
+                            value={lengthInput}
+                            onChange={(e) => setLengthInput(e.target.value)}
+                            placeholder="Longueur"
+                            inputMode="decimal"
+                            className="w-20 border border-gray-300 rounded px-1.5 py-0.5 text-right"
+                            title={`Longueur du prochain segment (${unitLabel('length', units)}), Entrée pour valider`}
+                         />
+                         <span>{unitLabel('length', units)}</span>
+                         <input
+                            value={angleInput}
+                            onChange={(e) => setAngleInput(e.target.value)}
+                            placeholder="Angle"
+                            inputMode="decimal"
+                            className="w-16 border border-gray-300 rounded px-1.5 py-0.5 text-right"
+                            title={angleMode === 'relative' ? 'Angle par rapport au segment précédent (positif vers la droite)' : 'Azimut depuis le nord, sens horaire'}
+                         />
+                         <span>°</span>
+                         <select
+                            value={angleMode}
+                            onChange={(e) => setAngleMode(e.target.value as AngleMode)}
+                            className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+                         >
+                             <option value="relative">Relatif</option>
+                             <option value="bearing">Azimut</option>
+                         </select>
+                     </div>
+                     {isAreaMode && points.length >= 3 && (
+                         <button
+                            onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                handleCloseParallel();
+                            }}
+                            className="bg-white hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-full shadow-lg font-bold flex items-center gap-2 cursor-pointer"
+                            title="Fermer parallèlement au premier segment (P)"
+                         >
+                             <SquareDashed className="w-5 h-5" />
+                             Fermer ∥
+                         </button>
+                     )}
+                     {((isAreaMode && points.length >= 3) || (isPathMode && points.length >= 2)) && (
+                         <button 
+                            onClick={(e) => {
+                                e.preventDefault();
+                                e.stopPropagation();
+                                handleTryFinish();
+                            }}
+                            className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-full shadow-lg font-bold flex items-center gap-2 transition-transform active:scale-95 cursor-pointer"
+                         >
+                             <Check className="w-5 h-5" />
+                             Terminer
+                         </button>
+                     )}
                  </div>
             </div>
         )}
@@ -188,38 +591,215 @@ const DrawingManager: React.FC<DrawingManagerProps> = ({ mode, color, onFinish,
   );
 };
 
+// --- VERTEX EDITOR ---
+interface VertexEditorProps {
+  shape: Shape;
+  onBeginEdit: () => void;
+  onChangePoints: (points: GeoPoint[]) => void;
+}
+
+const vertexIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:12px;height:12px;background:#fff;border:2px solid #f59e0b;border-radius:2px;box-shadow:0 1px 2px rgba(0,0,0,.4);cursor:move"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6]
+});
+
+const midpointIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:10px;height:10px;background:#f59e0b;opacity:.6;border:1px solid #fff;border-radius:50%;cursor:copy"></div>',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5]
+});
+
+const VertexEditor: React.FC<VertexEditorProps> = ({ shape, onBeginEdit, onChangePoints }) => {
+  // Midpoint being dragged: its handle follows the cursor instead of the recomputed midpoint
+  const [midDrag, setMidDrag] = useState<{ index: number; pos: GeoPoint } | null>(null);
+  const basePointsRef = useRef<GeoPoint[]>([]);
+  const pointsRef = useRef(shape.points);
+  pointsRef.current = shape.points;
+
+  const isPolygon = shape.type === 'polygon';
+  const minPoints = isPolygon ? 3 : 2;
+  const points = shape.points;
+  const segmentCount = isPolygon ? points.length : points.length - 1;
+
+  const toGeoPoint = (e: L.LeafletEvent): GeoPoint => {
+      const latlng = (e.target as L.Marker).getLatLng();
+      return { lat: latlng.lat, lng: latlng.lng };
+  };
+
+  return (
+      <>
+        {points.map((p, i) => (
+            <Marker
+                key={`v-${i}`}
+                position={[p.lat, p.lng]}
+                icon={vertexIcon}
+                draggable={true}
+                eventHandlers={{
+                    dragstart: () => onBeginEdit(),
+                    drag: (e) => {
+                        const next = [...pointsRef.current];
+                        next[i] = toGeoPoint(e);
+                        onChangePoints(next);
+                    },
+                    contextmenu: (e) => {
+                        // Right click removes the vertex
+                        L.DomEvent.stopPropagation(e.originalEvent);
+                        L.DomEvent.preventDefault(e.originalEvent);
+                        if (pointsRef.current.length <= minPoints) return;
+                        onBeginEdit();
+                        onChangePoints(pointsRef.current.filter((_, idx) => idx !== i));
+                    }
+                }}
+            />
+        ))}
+
+        {Array.from({ length: Math.max(segmentCount, 0) }).map((_, i) => {
+            if (midDrag && midDrag.index !== i) return null;
+            const pos = midDrag ? midDrag.pos : midpoint(points[i], points[(i + 1) % points.length]);
+            return (
+                <Marker
+                    key={`m-${i}`}
+                    position={[pos.lat, pos.lng]}
+                    icon={midpointIcon}
+                    draggable={true}
+                    eventHandlers={{
+                        dragstart: (e) => {
+                            onBeginEdit();
+                            basePointsRef.current = pointsRef.current;
+                            setMidDrag({ index: i, pos: toGeoPoint(e) });
+                        },
+                        drag: (e) => {
+                            const newPoint = toGeoPoint(e);
+                            const base = basePointsRef.current;
+                            setMidDrag({ index: i, pos: newPoint });
+                            onChangePoints([...base.slice(0, i + 1), newPoint, ...base.slice(i + 1)]);
+                        },
+                        dragend: () => setMidDrag(null)
+                    }}
+                />
+            );
+        })}
+      </>
+  );
+};
 
 // --- MAIN COMPONENT ---
+const DEFAULT_SHAPE_NAMES: Partial<Record<ToolMode, string>> = {
+  [ToolMode.DRAW_RECTANGLE]: 'Rectangle',
+  [ToolMode.DRAW_CIRCLE]: 'Cercle',
+  [ToolMode.DRAW_CORRIDOR]: 'Corridor'
+};
+
 interface MapCanvasProps {
   layers: Layer[];
+  groups: LayerGroup[];
   shapes: Shape[];
   activeLayerId: string | null;
-  selectedShapeId: string | null;
+  selectedShapeIds: string[];
   toolMode: ToolMode;
-  baseLayer: BaseLayer;
+  baseSource: TileSourceConfig;
+  overlaySources: TileSourceConfig[]; // Bottom first
+  mbTiles: Record<string, MbTilesArchive>; // Opened MBTiles files, by source id
   mapCenter: GeoPoint | null;
+  mapZoom: number;
+  focusPoints: GeoPoint[] | null;
+  locationMarker: { point: GeoPoint; label: string } | null;
+  onViewChange: (center: GeoPoint, zoom: number) => void;
   onAddShape: (shape: Shape) => void;
   onDeleteShape: (id: string) => void;
-  onSelectShape: (id: string | null) => void;
+  onSelectShape: (id: string | null, additive?: boolean) => void;
+  onSelectShapes: (ids: string[], additive: boolean) => void;
   onConvertShape: (id: string) => void;
+  onBeginShapeEdit: (id: string) => void;
+  onUpdateShapePoints: (id: string, points: GeoPoint[]) => void;
+  onAddHole: (id: string, hole: GeoPoint[]) => void;
+  onGeometryOperation: (operation: GeometryOperation) => void;
+  onSetToolMode: (mode: ToolMode) => void;
+  snapSettings: SnapSettings;
+  units: UnitSettings;
 }
 
+// Operations that wait for a click on a second polygon
+type PickOperation = 'union' | 'difference';
+
+const PICK_HINTS: Record<PickOperation, string> = {
+  union: 'Cliquez sur les surfaces à fusionner',
+  difference: 'Cliquez sur la surface à retirer de la sélection'
+};
+
 const MapCanvas: React.FC<MapCanvasProps> = ({
   layers,
+  groups,
   shapes,
   activeLayerId,
-  selectedShapeId,
+  selectedShapeIds,
   toolMode,
-  baseLayer,
+  baseSource,
+  overlaySources,
+  mbTiles,
   mapCenter,
+  mapZoom,
+  focusPoints,
+  locationMarker,
+  onViewChange,
   onAddShape,
   onDeleteShape,
   onSelectShape,
-  onConvertShape
+  onSelectShapes,
+  onConvertShape,
+  onBeginShapeEdit,
+  onUpdateShapePoints,
+  onAddHole,
+  onGeometryOperation,
+  onSetToolMode,
+  snapSettings,
+  units
 }) => {
   const activeLayer = layers.find(l => l.id === activeLayerId);
+  // The toolbar, vertex editing and operations work on a single selected shape
+  const selectedShapeId = selectedShapeIds.length === 1 ? selectedShapeIds[0] : null;
   const selectedShape = shapes.find(s => s.id === selectedShapeId);
-  const isKmlSelection = selectedShape && layers.find(l => l.id === selectedShape.layerId)?.category === 'kml';
+  const selectedLayer = selectedShape && layers.find(l => l.id === selectedShape.layerId);
+  // Last corridor width, offered as default for the next one
+  const corridorWidthRef = useRef(3);
+  const isKmlSelection = selectedLayer?.category === 'kml';
+  const [pickOperation, setPickOperation] = useState<PickOperation | null>(null);
+
+  // Picking ends with the selection; a union stays active to merge several surfaces in a row
+  useEffect(() => {
+      if (!selectedShapeId) setPickOperation(null);
+  }, [selectedShapeId]);
+
+  const handleShapeClick = (e: L.LeafletMouseEvent, shape: Shape) => {
+      // While drawing, clicks fall through to the map (e.g. a hole inside a polygon)
+      if (toolMode !== ToolMode.SELECT) return;
+      L.DomEvent.stopPropagation(e);
+      const additive = e.originalEvent.ctrlKey || e.originalEvent.metaKey || e.originalEvent.shiftKey;
+      if (pickOperation && selectedShapeId && !additive) {
+          if (shape.id === selectedShapeId) return;
+          onGeometryOperation({ kind: pickOperation, shapeId: selectedShapeId, otherId: shape.id });
+          if (pickOperation === 'difference') setPickOperation(null);
+          return;
+      }
+      onSelectShape(shape.id, additive);
+  };
+
+  const handleOffset = (shape: Shape) => {
+      const input = window.prompt(
+          shape.type === 'polygon' ? "Distance de décalage (m), négative pour rétrécir :" : "Demi-largeur de la bande autour de la ligne (m) :",
+          '1'
+      );
+      if (input === null) return;
+      const distance = parseDecimal(input);
+      if (distance === null) {
+          alert("Distance invalide.");
+          return;
+      }
+      onGeometryOperation({ kind: 'offset', shapeId: shape.id, distance });
+  };
   
   // Ref for the selection toolbar to disable propagation
   const toolbarRef = useRef<HTMLDivElement>(null);
@@ -231,53 +811,56 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
       }
   }, [selectedShapeId]);
 
-  const sortedLayers = [...layers].sort((a, b) => {
-    if (a.category === 'measurement' && b.category === 'kml') return 1;
-    if (a.category === 'kml' && b.category === 'measurement') return -1;
-    return 0;
+  // Snapping candidates: visible measurements, plus reference layers when enabled
+  const snapShapes = shapes.filter(s => {
+      const layer = layers.find(l => l.id === s.layerId);
+      return !!layer && isLayerDisplayed(layer, groups) && (layer.category === 'measurement' || snapSettings.reference);
   });
 
-  const handleShapeComplete = useCallback((points: GeoPoint[]) => {
+  // Draw order follows the list, reference layers included: the top of the list above the rest
+  const listedLayers = orderLayers(layers, groups).filter(l => isLayerDisplayed(l, groups));
+  const drawnLayers = [...listedLayers].reverse();
+
+  const handleShapeComplete = useCallback((drawnPoints: GeoPoint[]) => {
       if (!activeLayer) {
           alert("Erreur: Calque actif introuvable.");
           return;
       }
 
-      let measuredValue = 0;
-      try {
-        if (activeLayer.type === 'surface') {
-            const turfPoints = [...points, points[0]].map(p => [p.lng, p.lat]);
-            const polygon = turf.polygon([turfPoints]);
-            measuredValue = turf.area(polygon); 
-        } else {
-            const turfPoints = points.map(p => [p.lng, p.lat]);
-            const line = turf.lineString(turfPoints);
-            measuredValue = turf.length(line, { units: 'kilometers' }) * 1000;
-        }
-      } catch (e) {
-          console.error("Calculation error", e);
-      }
-
-      if (isNaN(measuredValue)) measuredValue = 0;
+      const type = activeLayer.type === 'surface' ? 'polygon' : 'polyline';
 
       // Small delay to ensure UI clears before prompt
       setTimeout(() => {
-          const defaultName = activeLayer.type === 'surface' ? 'Surface' : 'Longueur';
+          let points = drawnPoints;
+          if (toolMode === ToolMode.DRAW_CORRIDOR) {
+              const input = window.prompt("Largeur du corridor (m) :", String(corridorWidthRef.current));
+              if (input === null) return;
+              const width = parseDecimal(input);
+              const outline = width === null ? null : corridorPoints(drawnPoints, width);
+              if (width === null || !outline) {
+                  alert("Largeur invalide : saisissez une valeur positive en mètres.");
+                  return;
+              }
+              corridorWidthRef.current = width;
+              points = outline;
+          }
+
+          const defaultName = DEFAULT_SHAPE_NAMES[toolMode] || (activeLayer.type === 'surface' ? 'Surface' : 'Longueur');
           const name = window.prompt("Nom de la mesure :", `${defaultName} ${shapes.filter(s => s.layerId === activeLayer.id).length + 1}`);
           
           if (name !== null) { 
               const newShape: Shape = {
                   id: generateId(),
                   name: name || defaultName,
-                  type: activeLayer.type === 'surface' ? 'polygon' : 'polyline',
+                  type,
                   points: points,
                   layerId: activeLayer.id,
-                  measuredValue: measuredValue
+                  measuredValue: computeMeasuredValue(type, points)
               };
               onAddShape(newShape);
           }
       }, 50);
-  }, [activeLayer, shapes, onAddShape]);
+  }, [activeLayer, shapes, onAddShape, toolMode]);
 
   return (
     <div className="w-full h-full relative">
@@ -286,22 +869,26 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
          zoom={18} 
          className="w-full h-full z-0"
          zoomControl={false}
+         boxZoom={false}
        >
-          <MapController center={mapCenter} zoom={18} />
+          <MapController center={mapCenter} zoom={mapZoom} />
+          <BoundsController points={focusPoints} />
+          <LocationMarker location={locationMarker} />
+          <ViewTracker onViewChange={onViewChange} />
           
-          {baseLayer === 'plan' ? (
-              <TileLayer maxNativeZoom={20} maxZoom={22} attribution='Google' url="https://mt1.google.com/vt/lyrs=m&x={x}&y={y}&z={z}" />
-          ) : (
-              <TileLayer maxNativeZoom={20} maxZoom={22} attribution='Google Hybrid' url="https://mt1.google.com/vt/lyrs=y&x={x}&y={y}&z={z}" />
-          )}
+          <TileSourceLayer key={baseSource.id} source={baseSource} archive={mbTiles[baseSource.id]} zIndex={1} />
+          {overlaySources.map((source, index) => (
+              <TileSourceLayer key={source.id} source={source} archive={mbTiles[source.id]} zIndex={2 + index} />
+          ))}
 
           {/* Render Layers */}
-          {sortedLayers.filter(l => l.isVisible).map(layer => {
+          {drawnLayers.map((layer, index) => {
               const layerShapes = shapes.filter(s => s.layerId === layer.id);
+              // Leaflet stacks paths in insertion order: the index in the key remounts moved layers at their new level
               return (
-                  <FeatureGroup key={layer.id}>
+                  <FeatureGroup key={`${layer.id}:${index}`}>
                       {layerShapes.map(shape => {
-                          const isSelected = selectedShapeId === shape.id;
+                          const isSelected = selectedShapeIds.includes(shape.id);
                           const pathOptions = {
                               color: isSelected ? '#fbbf24' : layer.color,
                               weight: isSelected ? 5 : 3,
@@ -310,29 +897,31 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
                               dashArray: isSelected ? '10, 10' : undefined
                           };
 
+                          if (shape.type === 'point') {
+                              return shape.points.length > 0 ? (
+                                  <CircleMarker
+                                    key={shape.id}
+                                    center={[shape.points[0].lat, shape.points[0].lng]}
+                                    radius={isSelected ? 8 : 6}
+                                    pathOptions={{ ...pathOptions, weight: 2, dashArray: undefined, fillOpacity: 0.9 }}
+                                    eventHandlers={{ click: (e) => handleShapeClick(e, shape) }}
+                                  />
+                              ) : null;
+                          }
+
                           return shape.type === 'polygon' ? (
                               <Polygon 
                                 key={shape.id} 
-                                positions={shape.points.map(p => [p.lat, p.lng])}
+                                positions={[shape.points, ...(shape.holes || [])].map(ring => ring.map(p => [p.lat, p.lng] as [number, number]))}
                                 pathOptions={pathOptions}
-                                eventHandlers={{
-                                    click: (e) => {
-                                        L.DomEvent.stopPropagation(e);
-                                        if (toolMode === ToolMode.SELECT) onSelectShape(shape.id);
-                                    }
-                                }}
+                                eventHandlers={{ click: (e) => handleShapeClick(e, shape) }}
                               />
                           ) : (
                              <Polyline 
                                 key={shape.id} 
                                 positions={shape.points.map(p => [p.lat, p.lng])}
                                 pathOptions={pathOptions}
-                                eventHandlers={{
-                                    click: (e) => {
-                                        L.DomEvent.stopPropagation(e);
-                                        if (toolMode === ToolMode.SELECT) onSelectShape(shape.id);
-                                    }
-                                }}
+                                eventHandlers={{ click: (e) => handleShapeClick(e, shape) }}
                               />
                           );
                       })}
@@ -340,10 +929,42 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
               );
           })}
 
-          {toolMode !== ToolMode.SELECT && activeLayer && (
+          {toolMode === ToolMode.SELECT && (
+              <BoxSelector
+                 shapes={shapes.filter(s => drawnLayers.some(l => l.id === s.layerId))}
+                 onSelect={onSelectShapes}
+              />
+          )}
+
+          {toolMode === ToolMode.SELECT && selectedShape && !isKmlSelection && (
+              <VertexEditor
+                 shape={selectedShape}
+                 onBeginEdit={() => onBeginShapeEdit(selectedShape.id)}
+                 onChangePoints={(points) => onUpdateShapePoints(selectedShape.id, points)}
+              />
+          )}
+
+          {(toolMode === ToolMode.DRAW_HOLE || toolMode === ToolMode.DRAW_SPLIT) && selectedShape && selectedLayer && (
+              <DrawingManager
+                 mode={toolMode}
+                 color={toolMode === ToolMode.DRAW_SPLIT ? '#dc2626' : selectedLayer.color}
+                 snapShapes={snapShapes}
+                 snapSettings={snapSettings}
+                 units={resolveUnitSettings(units, selectedLayer)}
+                 onFinish={(points) => toolMode === ToolMode.DRAW_HOLE
+                     ? onAddHole(selectedShape.id, points)
+                     : onGeometryOperation({ kind: 'split', shapeId: selectedShape.id, line: points })}
+                 onCancel={() => onSetToolMode(ToolMode.SELECT)}
+              />
+          )}
+
+          {toolMode !== ToolMode.SELECT && toolMode !== ToolMode.DRAW_HOLE && toolMode !== ToolMode.DRAW_SPLIT && activeLayer && (
               <DrawingManager 
                  mode={toolMode}
                  color={activeLayer.color}
+                 snapShapes={snapShapes}
+                 snapSettings={snapSettings}
+                 units={resolveUnitSettings(units, activeLayer)}
                  onFinish={handleShapeComplete}
                  onCancel={() => onSelectShape(null)}
               />
@@ -364,6 +985,12 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
                <div className="px-3 border-r border-gray-200">
                    <p className="text-[10px] text-gray-400 font-bold uppercase">Sélection</p>
                    <p className="text-sm font-bold text-gray-800">{selectedShape.name}</p>
+                   {!isKmlSelection && (
+                       <p className="text-[10px] text-gray-500">
+                           {formatQuantity(selectedShape.measuredValue, shapeQuantityKind(selectedShape), resolveUnitSettings(units, selectedLayer))}
+                           {selectedShape.holes && selectedShape.holes.length > 0 && ` (net, ${selectedShape.holes.length} trou${selectedShape.holes.length > 1 ? 's' : ''})`}
+                       </p>
+                   )}
                </div>
                
                {isKmlSelection ? (
@@ -378,7 +1005,92 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
                        <Plus className="w-4 h-4" />
                        Ajouter au Métré
                    </button>
+               ) : toolMode === ToolMode.DRAW_HOLE ? (
+                   <p className="text-xs text-gray-600 px-1">Dessinez le contour du trou à l'intérieur de la surface</p>
+               ) : toolMode === ToolMode.DRAW_SPLIT ? (
+                   <p className="text-xs text-gray-600 px-1">Dessinez la ligne de coupe à travers la forme</p>
+               ) : pickOperation ? (
+                   <>
+                   <p className="text-xs text-gray-600 px-1">{PICK_HINTS[pickOperation]}</p>
+                   <button
+                     onClick={(e) => {
+                         e.preventDefault();
+                         e.stopPropagation();
+                         setPickOperation(null);
+                     }}
+                     className="bg-gray-50 hover:bg-gray-100 text-gray-700 text-xs px-3 py-2 rounded font-bold cursor-pointer"
+                   >
+                       Terminer
+                   </button>
+                   </>
                ) : (
+                   <>
+                   {selectedShape.type === 'polygon' && (
+                       <>
+                       <button
+                         onClick={(e) => {
+                             e.preventDefault();
+                             e.stopPropagation();
+                             setPickOperation('union');
+                         }}
+                         className="bg-gray-50 hover:bg-gray-100 text-gray-700 p-2 rounded cursor-pointer"
+                         title="Fusionner avec d'autres surfaces"
+                       >
+                           <Combine className="w-4 h-4" />
+                       </button>
+                       <button
+                         onClick={(e) => {
+                             e.preventDefault();
+                             e.stopPropagation();
+                             setPickOperation('difference');
+                         }}
+                         className="bg-gray-50 hover:bg-gray-100 text-gray-700 p-2 rounded cursor-pointer"
+                         title="Soustraire une autre surface"
+                       >
+                           <SquareMinus className="w-4 h-4" />
+                       </button>
+                       </>
+                   )}
+                   {selectedShape.type !== 'point' && (
+                       <>
+                       <button
+                         onClick={(e) => {
+                             e.preventDefault();
+                             e.stopPropagation();
+                             onSetToolMode(ToolMode.DRAW_SPLIT);
+                         }}
+                         className="bg-gray-50 hover:bg-gray-100 text-gray-700 p-2 rounded cursor-pointer"
+                         title="Découper avec une ligne"
+                       >
+                           <Scissors className="w-4 h-4" />
+                       </button>
+                       <button
+                         onClick={(e) => {
+                             e.preventDefault();
+                             e.stopPropagation();
+                             handleOffset(selectedShape);
+                         }}
+                         className="bg-gray-50 hover:bg-gray-100 text-gray-700 p-2 rounded cursor-pointer"
+                         title="Décaler (tampon)"
+                       >
+                           <Expand className="w-4 h-4" />
+                       </button>
+                       </>
+                   )}
+                   {selectedShape.type === 'polygon' && (
+                       <button
+                         onClick={(e) => {
+                             e.preventDefault();
+                             e.stopPropagation();
+                             onSetToolMode(ToolMode.DRAW_HOLE);
+                         }}
+                         className="bg-gray-50 hover:bg-gray-100 text-gray-700 text-xs px-3 py-2 rounded font-bold flex items-center gap-2 cursor-pointer"
+                         title="Dessiner un contour intérieur déduit de la surface"
+                       >
+                           <CircleDashed className="w-4 h-4" />
+                           Percer un trou
+                       </button>
+                   )}
                    <button 
                      onClick={(e) => {
                          e.preventDefault();
@@ -390,11 +1102,13 @@ const MapCanvas: React.FC<MapCanvasProps> = ({
                        <Trash2 className="w-4 h-4" />
                        Supprimer
                    </button>
+                   </>
                )}
                <button 
                  onClick={(e) => {
                      e.preventDefault();
                      e.stopPropagation();
+                     if (toolMode === ToolMode.DRAW_HOLE || toolMode === ToolMode.DRAW_SPLIT) onSetToolMode(ToolMode.SELECT);
                      onSelectShape(null);
                  }} 
                  className="p-2 hover:bg-gray-100 rounded text-gray-500"
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ProjectSummary } from '../types';
+import { FolderOpen, ChevronDown, Plus, Pencil, Copy, Trash2, Check, Loader2, AlertCircle, Download, Upload } from 'lucide-react';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+interface ProjectSwitcherProps {
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  saveStatus: SaveStatus;
+  onOpenProject: (id: string) => void;
+  onCreateProject: () => void;
+  onRenameProject: (id: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
+  onExportProject: () => void;
+  onImportProjectFile: (file: File) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  currentProjectId,
+  saveStatus,
+  onOpenProject,
+  onCreateProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+  onExportProject,
+  onImportProjectFile
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const currentProject = projects.find(p => p.id === currentProjectId);
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be selected again
+    e.target.value = '';
+    setIsOpen(false);
+    if (file) onImportProjectFile(file);
+  };
+
+  const runAndClose = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={containerRef} className="relative min-w-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-md hover:bg-gray-50 text-gray-700 shadow-sm max-w-[14rem]"
+        title="Projets"
+      >
+        <FolderOpen className="w-4 h-4 flex-shrink-0 text-gray-500" />
+        <span className="truncate font-medium">{currentProject?.name || 'Projet'}</span>
+        {saveStatus === 'saving' && <Loader2 className="w-3 h-3 flex-shrink-0 text-gray-400 animate-spin" />}
+        {saveStatus === 'saved' && <Check className="w-3 h-3 flex-shrink-0 text-green-500" />}
+        {saveStatus === 'error' && <AlertCircle className="w-3 h-3 flex-shrink-0 text-red-500" />}
+        <ChevronDown className="w-3 h-3 flex-shrink-0 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 w-80 bg-white rounded-lg shadow-xl border border-gray-200 z-[1100] overflow-hidden">
+          <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex justify-between items-center">
+            <span className="text-[10px] text-gray-500 font-bold uppercase tracking-wider">Projets enregistrés</span>
+            <button
+              onClick={runAndClose(onCreateProject)}
+              className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700 font-medium"
+            >
+              <Plus className="w-3 h-3" /> Nouveau
+            </button>
+          </div>
+          <div className="max-h-80 overflow-y-auto">
+            {projects.map(project => {
+              const isCurrent = project.id === currentProjectId;
+              return (
+                <div
+                  key={project.id}
+                  onClick={runAndClose(() => onOpenProject(project.id))}
+                  className={`group flex items-center justify-between px-3 py-2 border-b border-gray-100 last:border-0 cursor-pointer ${isCurrent ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  <div className="flex flex-col overflow-hidden">
+                    <span className={`text-sm truncate ${isCurrent ? 'font-semibold text-blue-700' : 'text-gray-800'}`}>{project.name}</span>
+                    <span className="text-[10px] text-gray-400">Modifié le {formatDate(project.updatedAt)}</span>
+                  </div>
+                  <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button onClick={runAndClose(() => onRenameProject(project.id))} className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded" title="Renommer">
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button onClick={runAndClose(() => onDuplicateProject(project.id))} className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded" title="Dupliquer">
+                      <Copy className="w-3 h-3" />
+                    </button>
+                    <button onClick={runAndClose(() => onDeleteProject(project.id))} className="p-1 text-red-300 hover:text-red-500 hover:bg-red-50 rounded" title="Supprimer">
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            {projects.length === 0 && (
+              <p className="text-gray-400 text-center text-xs py-4 italic">Aucun projet enregistré.</p>
+            )}
+          </div>
+          <div className="px-3 py-2 bg-gray-50 border-t border-gray-200 flex gap-2">
+            <button
+              onClick={runAndClose(onExportProject)}
+              disabled={!currentProjectId}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 text-gray-700 disabled:opacity-50"
+              title="Télécharger le projet courant"
+            >
+              <Download className="w-3 h-3" /> Exporter
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); fileInputRef.current?.click(); }}
+              className="flex-1 flex items-center justify-center gap-1 py-1.5 text-xs bg-white border border-gray-300 rounded hover:bg-gray-100 text-gray-700"
+              title="Ouvrir un fichier projet"
+            >
+              <Upload className="w-3 h-3" /> Importer
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Layer, Shape, UnitSettings } from '../types';
+import { Plus, Trash2, X, ArrowRightLeft, Copy } from 'lucide-react';
+import { formatDisplayValue, resolveUnitSettings, sumDisplayValues, toDisplayValue } from '../services/units';
+
+interface SelectionBarProps {
+  shapes: Shape[]; // Selected shapes
+  layers: Layer[];
+  units: UnitSettings;
+  onMove: (layerId: string, copy: boolean) => void;
+  onConvert: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+// Bulk actions on a multiple selection
+const SelectionBar: React.FC<SelectionBarProps> = ({ shapes, layers, units, onMove, onConvert, onDelete, onClear }) => {
+  const [targetLayerId, setTargetLayerId] = useState('');
+
+  const measurementLayers = layers.filter(l => l.category === 'measurement');
+  const isMeasured = (shape: Shape) => layers.find(l => l.id === shape.layerId)?.category === 'measurement';
+  const referenceCount = shapes.filter(s => !isMeasured(s)).length;
+
+  // Combined total in the project units, per kind of quantity
+  const projectUnits = resolveUnitSettings(units);
+  const measured = shapes.filter(isMeasured);
+  const areas = measured.filter(s => s.type === 'polygon').map(s => toDisplayValue(s.measuredValue, 'area', projectUnits));
+  const lengths = measured.filter(s => s.type === 'polyline').map(s => toDisplayValue(s.measuredValue, 'length', projectUnits));
+  const totals = [
+    ...(areas.length > 0 ? [formatDisplayValue(sumDisplayValues(areas, projectUnits), 'area', projectUnits)] : []),
+    ...(lengths.length > 0 ? [formatDisplayValue(sumDisplayValues(lengths, projectUnits), 'length', projectUnits)] : [])
+  ];
+
+  const buttonClass = 'bg-gray-50 hover:bg-gray-100 text-gray-700 text-xs px-3 py-2 rounded font-bold flex items-center gap-2 disabled:opacity-40';
+
+  return (
+    <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-[1000] bg-white rounded-lg shadow-xl p-2 flex items-center gap-3">
+      <div className="px-3 border-r border-gray-200">
+        <p className="text-[10px] text-gray-400 font-bold uppercase">Sélection</p>
+        <p className="text-sm font-bold text-gray-800">{shapes.length} formes</p>
+        <p className="text-[10px] text-gray-500">
+          {totals.length > 0 ? totals.join(' · ') : 'Aucune quantité mesurée'}
+          {referenceCount > 0 && ` (${referenceCount} importée${referenceCount > 1 ? 's' : ''})`}
+        </p>
+      </div>
+
+      <select
+        value={targetLayerId}
+        onChange={(e) => setTargetLayerId(e.target.value)}
+        className="border border-gray-300 rounded px-2 py-1.5 text-xs bg-white max-w-[10rem]"
+        title="Calque de destination"
+      >
+        <option value="">Calque…</option>
+        {measurementLayers.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+      </select>
+      <button onClick={() => onMove(targetLayerId, false)} disabled={!targetLayerId} className={buttonClass} title="Déplacer vers le calque">
+        <ArrowRightLeft className="w-4 h-4" /> Déplacer
+      </button>
+      <button onClick={() => onMove(targetLayerId, true)} disabled={!targetLayerId} className={buttonClass} title="Copier vers le calque">
+        <Copy className="w-4 h-4" /> Copier
+      </button>
+
+      {referenceCount > 0 && (
+        <button onClick={onConvert} className="bg-blue-600 hover:bg-blue-700 text-white text-xs px-3 py-2 rounded font-bold flex items-center gap-2">
+          <Plus className="w-4 h-4" /> Ajouter au Métré
+        </button>
+      )}
+      <button onClick={onDelete} className="bg-red-50 hover:bg-red-100 text-red-600 text-xs px-3 py-2 rounded font-bold flex items-center gap-2">
+        <Trash2 className="w-4 h-4" /> Supprimer
+      </button>
+      <button onClick={onClear} className="p-2 hover:bg-gray-100 rounded text-gray-500" title="Vider la sélection">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default SelectionBar;
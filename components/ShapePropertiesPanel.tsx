@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Layer, Shape, UnitSettings } from '../types';
+import { X, Plus, Tag, Info } from 'lucide-react';
+import { ShapeProperties, parseTags } from '../services/attributes';
+import { computeCentroid, computePerimeter } from '../services/geometry';
+import { formatQuantity, resolveUnitSettings, shapeQuantityKind } from '../services/units';
+
+interface ShapePropertiesPanelProps {
+  shape: Shape;
+  layer: Layer | undefined;
+  units: UnitSettings;
+  onUpdate: (id: string, properties: Partial<ShapeProperties>) => void;
+  onClose: () => void;
+}
+
+interface TextFieldProps {
+  value: string;
+  onCommit: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  required?: boolean;
+}
+
+const fieldClass = 'w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Edits a local draft, commits on blur or Enter so that typing is a single undo step
+const TextField: React.FC<TextFieldProps> = ({ value, onCommit, placeholder, multiline, required }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => { setDraft(value); }, [value]);
+
+  const commit = () => {
+    if (required && !draft.trim()) setDraft(value);
+    else if (draft !== value) onCommit(draft);
+  };
+
+  if (multiline) {
+    return <textarea value={draft} rows={3} placeholder={placeholder} onChange={(e) => setDraft(e.target.value)} onBlur={commit} className={`${fieldClass} resize-none`} />;
+  }
+  return (
+    <input
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      className={fieldClass}
+    />
+  );
+};
+
+const ShapePropertiesPanel: React.FC<ShapePropertiesPanelProps> = ({ shape, layer, units, onUpdate, onClose }) => {
+  const [newKey, setNewKey] = useState('');
+  const [newValue, setNewValue] = useState('');
+
+  const update = (properties: Partial<ShapeProperties>) => onUpdate(shape.id, properties);
+  const attributes = shape.attributes || {};
+  const layerUnits = resolveUnitSettings(units, layer);
+  const isMeasurement = layer?.category === 'measurement';
+  const centroid = computeCentroid(shape);
+  const vertexCount = shape.points.length + (shape.holes || []).reduce((sum, h) => sum + h.length, 0);
+
+  const setAttribute = (key: string, value: string) => update({ attributes: { ...attributes, [key]: value } });
+  const removeAttribute = (key: string) => {
+    const next = { ...attributes };
+    delete next[key];
+    update({ attributes: next });
+  };
+
+  const handleAddAttribute = () => {
+    const key = newKey.trim();
+    if (!key) return;
+    setAttribute(key, newValue.trim());
+    setNewKey('');
+    setNewValue('');
+  };
+
+  return (
+    <div className="absolute top-4 right-4 z-[1000] w-72 max-h-[calc(100%-2rem)] bg-white rounded-xl shadow-xl border border-gray-200 flex flex-col overflow-hidden">
+      <div className="px-4 py-2 bg-gray-100 text-gray-600 text-xs font-bold uppercase tracking-wider flex justify-between items-center">
+        <span className="flex items-center gap-2"><Info className="w-3 h-3" /> Propriétés</span>
+        <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded" title="Fermer">
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3 text-xs text-gray-500">
+        <label className="block">
+          Nom
+          <TextField value={shape.name} onCommit={(name) => update({ name: name.trim() })} required />
+        </label>
+        <label className="block">
+          Description
+          <TextField value={shape.description || ''} onCommit={(description) => update({ description })} multiline />
+        </label>
+        <label className="block">
+          Lot / corps d'état
+          <TextField value={shape.lot || ''} onCommit={(lot) => update({ lot: lot.trim() })} placeholder="ex: 02 Gros œuvre" />
+        </label>
+        <label className="block">
+          <span className="flex items-center gap-1"><Tag className="w-3 h-3" /> Tags (séparés par des virgules)</span>
+          <TextField value={(shape.tags || []).join(', ')} onCommit={(text) => update({ tags: parseTags(text) })} />
+        </label>
+
+        <div>
+          <p className="mb-1">Attributs</p>
+          {Object.entries(attributes).map(([key, value]) => (
+            <div key={key} className="flex items-center gap-1 mb-1">
+              <span className="w-24 truncate font-medium text-gray-700" title={key}>{key}</span>
+              <div className="flex-1"><TextField value={value} onCommit={(v) => setAttribute(key, v)} /></div>
+              <button onClick={() => removeAttribute(key)} className="text-gray-300 hover:text-red-500" title="Supprimer l'attribut">
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-1">
+            <input value={newKey} onChange={(e) => setNewKey(e.target.value)} placeholder="Clé" className={`${fieldClass} w-24`} />
+            <input
+              value={newValue}
+              onChange={(e) => setNewValue(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAddAttribute(); }}
+              placeholder="Valeur"
+              className={`${fieldClass} flex-1 min-w-0`}
+            />
+            <button onClick={handleAddAttribute} disabled={!newKey.trim()} className="text-blue-600 hover:text-blue-700 disabled:opacity-30" title="Ajouter l'attribut">
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-100 pt-2 space-y-0.5">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Géométrie</p>
+          {shape.type !== 'point' && isMeasurement && (
+            <p className="flex justify-between"><span>{shape.type === 'polygon' ? 'Surface nette' : 'Longueur'}</span><span className="text-gray-800">{formatQuantity(shape.measuredValue, shapeQuantityKind(shape), layerUnits)}</span></p>
+          )}
+          {shape.type === 'polygon' && (
+            <p className="flex justify-between"><span>Périmètre</span><span className="text-gray-800">{formatQuantity(computePerimeter(shape.points), 'length', layerUnits)}</span></p>
+          )}
+          <p className="flex justify-between"><span>Sommets</span><span className="text-gray-800">{vertexCount}</span></p>
+          {shape.holes && shape.holes.length > 0 && (
+            <p className="flex justify-between"><span>Trous</span><span className="text-gray-800">{shape.holes.length}</span></p>
+          )}
+          {centroid && (
+            <p className="flex justify-between"><span>Centroïde</span><span className="text-gray-800 font-mono">{centroid.lat.toFixed(6)}, {centroid.lng.toFixed(6)}</span></p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShapePropertiesPanel;
@@ -0,0 +1,82 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SnapSettings } from '../types';
+import { Magnet, ChevronDown } from 'lucide-react';
+
+interface SnapControlProps {
+  settings: SnapSettings;
+  onChange: (settings: SnapSettings) => void;
+}
+
+const SnapControl: React.FC<SnapControlProps> = ({ settings, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the popover when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const update = (patch: Partial<SnapSettings>) => onChange({ ...settings, ...patch });
+
+  const options: { key: 'vertices' | 'edges' | 'reference'; label: string }[] = [
+    { key: 'vertices', label: 'Sommets' },
+    { key: 'edges', label: 'Segments' },
+    { key: 'reference', label: 'Calques importés (KML / GeoJSON)' }
+  ];
+
+  return (
+    <div ref={containerRef} className="relative flex">
+      <button
+        onClick={() => update({ enabled: !settings.enabled })}
+        className={`p-1.5 rounded-l-md transition-all ${settings.enabled ? 'bg-white shadow text-pink-600' : 'text-gray-500 hover:text-gray-700'}`}
+        title={settings.enabled ? 'Accrochage activé (maintenir Alt pour l\'ignorer)' : 'Accrochage désactivé'}
+      >
+        <Magnet className="w-5 h-5" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-0.5 rounded-r-md text-gray-400 hover:text-gray-700"
+        title="Options d'accrochage"
+      >
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white rounded-lg shadow-xl border border-gray-200 z-[1100] p-3 space-y-2 text-sm text-gray-700">
+          <p className="text-[10px] text-gray-400 font-bold uppercase">Accrochage</p>
+          {options.map(option => (
+            <label key={option.key} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings[option.key]}
+                onChange={(e) => update({ [option.key]: e.target.checked })}
+              />
+              {option.label}
+            </label>
+          ))}
+          <label className="block pt-1">
+            <span className="flex justify-between text-xs text-gray-500">
+              Tolérance <span>{settings.tolerance} px</span>
+            </span>
+            <input
+              type="range"
+              min={4}
+              max={30}
+              value={settings.tolerance}
+              onChange={(e) => update({ tolerance: Number(e.target.value) })}
+              className="w-full"
+            />
+          </label>
+          <p className="text-[10px] text-gray-400">Maintenez Alt pendant le dessin pour placer un point librement.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapControl;
@@ -0,0 +1,180 @@
+import React, { useRef, useState } from 'react';
+import { TileSourceConfig, TileSourceKind } from '../types';
+import { X, Layers, Plus, Trash2, HardDriveUpload } from 'lucide-react';
+import { MAX_TILE_ZOOM, TILE_SOURCE_KINDS, tileSourceError } from '../services/baseLayers';
+import { generateId } from '../services/ids';
+
+interface TileSourcesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sources: TileSourceConfig[];
+  missingSourceIds: string[]; // MBTiles sources whose file is not opened in this session
+  onAdd: (source: TileSourceConfig) => void;
+  onRemove: (id: string) => void;
+  onOpenMbTiles: (file: File, overlay: boolean, sourceId?: string) => void;
+}
+
+const URL_PLACEHOLDERS: Record<Exclude<TileSourceKind, 'mbtiles'>, string> = {
+  xyz: 'https://tiles.example.fr/{z}/{x}/{y}.png',
+  wmts: 'https://data.geopf.fr/wmts?...&TILEMATRIX={TileMatrix}&TILEROW={TileRow}&TILECOL={TileCol}',
+  wms: 'https://data.geopf.fr/wms-r'
+};
+
+const EMPTY_DRAFT = { name: '', kind: 'xyz' as Exclude<TileSourceKind, 'mbtiles'>, url: '', attribution: '', maxZoom: '19', wmsLayers: '', wmsFormat: 'image/png', overlay: false };
+
+const inputClass = 'w-full border border-gray-300 rounded-md px-2 py-1 text-sm';
+
+const TileSourcesModal: React.FC<TileSourcesModalProps> = ({ isOpen, onClose, sources, missingSourceIds, onAdd, onRemove, onOpenMbTiles }) => {
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Source whose file is being reopened, undefined for a new MBTiles source
+  const reopenIdRef = useRef<string | undefined>(undefined);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<typeof EMPTY_DRAFT>) => {
+    setDraft({ ...draft, ...patch });
+    setError('');
+  };
+
+  const handleAdd = () => {
+    const source: TileSourceConfig = {
+      id: generateId(),
+      name: draft.name.trim(),
+      kind: draft.kind,
+      url: draft.url.trim(),
+      attribution: draft.attribution.trim(),
+      maxZoom: Number(draft.maxZoom),
+      ...(draft.overlay ? { overlay: true } : {}),
+      ...(draft.kind === 'wms' ? { wmsLayers: draft.wmsLayers.trim(), wmsFormat: draft.wmsFormat.trim() || 'image/png' } : {})
+    };
+    const message = tileSourceError(source);
+    if (message) {
+      setError(message);
+      return;
+    }
+    onAdd(source);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const pickMbTiles = (sourceId?: string) => {
+    reopenIdRef.current = sourceId;
+    fileInputRef.current?.click();
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onOpenMbTiles(file, draft.overlay, reopenIdRef.current);
+  };
+
+  const renderSource = (source: TileSourceConfig) => {
+    const isMissing = missingSourceIds.includes(source.id);
+    return (
+      <div key={source.id} className="flex items-center gap-2 py-1.5 border-b border-gray-100 last:border-0 text-sm">
+        <div className="flex-1 min-w-0">
+          <p className="text-gray-800 truncate">
+            {source.name}
+            {source.overlay && <span className="ml-2 text-[10px] text-purple-600 font-bold uppercase">Superposition</span>}
+          </p>
+          <p className="text-[10px] text-gray-400 truncate" title={source.url}>
+            {TILE_SOURCE_KINDS[source.kind]} · zoom {source.maxZoom} max{source.url ? ` · ${source.url}` : ''}
+          </p>
+        </div>
+        {isMissing && (
+          <button onClick={() => pickMbTiles(source.id)} className="text-xs text-amber-600 hover:text-amber-800 whitespace-nowrap" title="Le fichier doit être rouvert à chaque session">
+            Rouvrir le fichier
+          </button>
+        )}
+        {!source.builtIn && (
+          <button onClick={() => onRemove(source.id)} className="p-1 text-red-300 hover:text-red-500 hover:bg-red-50 rounded" title="Retirer la source">
+            <Trash2 className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-blue-600" />
+            Fonds de carte
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mb-2">Sources enregistrées</p>
+            {sources.map(renderSource)}
+          </div>
+
+          <div>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mb-2">Ajouter une source</p>
+            <div className="grid grid-cols-3 gap-2 text-xs text-gray-500">
+              <label className="col-span-2">
+                Nom
+                <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+              </label>
+              <label>
+                Type
+                <select value={draft.kind} onChange={(e) => update({ kind: e.target.value as typeof draft.kind })} className={`${inputClass} bg-white`}>
+                  {Object.keys(URL_PLACEHOLDERS).map(kind => <option key={kind} value={kind}>{TILE_SOURCE_KINDS[kind as TileSourceKind]}</option>)}
+                </select>
+              </label>
+              <label className="col-span-3">
+                {draft.kind === 'wms' ? 'URL du service' : "Modèle d'URL"}
+                <input value={draft.url} onChange={(e) => update({ url: e.target.value })} placeholder={URL_PLACEHOLDERS[draft.kind]} className={`${inputClass} font-mono`} />
+              </label>
+              {draft.kind === 'wms' && (
+                <>
+                  <label className="col-span-2">
+                    Couches (séparées par des virgules)
+                    <input value={draft.wmsLayers} onChange={(e) => update({ wmsLayers: e.target.value })} className={`${inputClass} font-mono`} />
+                  </label>
+                  <label>
+                    Format
+                    <input value={draft.wmsFormat} onChange={(e) => update({ wmsFormat: e.target.value })} className={`${inputClass} font-mono`} />
+                  </label>
+                </>
+              )}
+              <label className="col-span-2">
+                Attribution
+                <input value={draft.attribution} onChange={(e) => update({ attribution: e.target.value })} placeholder="© Producteur des données" className={inputClass} />
+              </label>
+              <label>
+                Zoom max (1 à {MAX_TILE_ZOOM})
+                <input type="number" min={1} max={MAX_TILE_ZOOM} value={draft.maxZoom} onChange={(e) => update({ maxZoom: e.target.value })} className={inputClass} />
+              </label>
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-600 mt-2">
+              <input type="checkbox" checked={draft.overlay} onChange={(e) => update({ overlay: e.target.checked })} />
+              Superposition (dessinée par-dessus le fond, ex. cadastre)
+            </label>
+            {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+            <div className="flex justify-between items-center mt-3">
+              <button onClick={() => pickMbTiles()} className="flex items-center gap-2 text-xs text-gray-600 hover:text-blue-600" title="Tuiles hors ligne, lues depuis un fichier local">
+                <HardDriveUpload className="w-4 h-4" /> Ouvrir un fichier MBTiles...
+              </button>
+              <button onClick={handleAdd} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-3 py-1.5 rounded-md text-sm font-medium">
+                <Plus className="w-4 h-4" /> Ajouter
+              </button>
+            </div>
+            <input ref={fileInputRef} type="file" accept=".mbtiles" className="hidden" onChange={handleFile} />
+            <p className="text-[10px] text-gray-400 mt-2">
+              Les sources sont propres à ce navigateur. Un fichier MBTiles est lu à la demande et doit être rouvert après chaque rechargement.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TileSourcesModal;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { Layer, UnitSettings } from '../types';
+import { X, SlidersHorizontal } from 'lucide-react';
+import { AREA_UNITS, LENGTH_UNITS, MAX_DECIMALS, ROUNDING_MODES, formatQuantity, layerQuantityKind, resolveUnitSettings, unitLabel } from '../services/units';
+
+interface UnitsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  units: UnitSettings;
+  layers: Layer[];
+  onChangeUnits: (units: UnitSettings) => void;
+  onChangeLayerUnits: (id: string, units: Partial<UnitSettings> | undefined) => void;
+}
+
+const DECIMAL_OPTIONS = Array.from({ length: MAX_DECIMALS + 1 }, (_, i) => i);
+
+const selectClass = 'w-full border border-gray-300 rounded-md px-2 py-1 text-sm bg-white';
+
+const UnitsModal: React.FC<UnitsModalProps> = ({ isOpen, onClose, units, layers, onChangeUnits, onChangeLayerUnits }) => {
+  if (!isOpen) return null;
+
+  const measurementLayers = layers.filter(l => l.category === 'measurement');
+
+  // An empty value removes the override so that the layer follows the project again
+  const updateLayer = (layer: Layer, key: keyof UnitSettings, value: string) => {
+    const next: Partial<UnitSettings> = { ...layer.units };
+    if (value === '') delete next[key];
+    else if (key === 'decimals') next.decimals = Number(value);
+    else (next as Record<string, string>)[key] = value;
+    onChangeLayerUnits(layer.id, Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[80vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center bg-gradient-to-r from-blue-50 to-white">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+            Unités et précision
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-5">
+          <div>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mb-2">Projet</p>
+            <div className="grid grid-cols-4 gap-2 text-xs text-gray-500">
+              <label>
+                Longueurs
+                <select value={units.lengthUnit} onChange={(e) => onChangeUnits({ ...units, lengthUnit: e.target.value as UnitSettings['lengthUnit'] })} className={selectClass}>
+                  {Object.entries(LENGTH_UNITS).map(([id, unit]) => <option key={id} value={id}>{unit.name} ({unit.label})</option>)}
+                </select>
+              </label>
+              <label>
+                Surfaces
+                <select value={units.areaUnit} onChange={(e) => onChangeUnits({ ...units, areaUnit: e.target.value as UnitSettings['areaUnit'] })} className={selectClass}>
+                  {Object.entries(AREA_UNITS).map(([id, unit]) => <option key={id} value={id}>{unit.name} ({unit.label})</option>)}
+                </select>
+              </label>
+              <label>
+                Décimales
+                <select value={units.decimals} onChange={(e) => onChangeUnits({ ...units, decimals: Number(e.target.value) })} className={selectClass}>
+                  {DECIMAL_OPTIONS.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+              </label>
+              <label>
+                Arrondi
+                <select value={units.rounding} onChange={(e) => onChangeUnits({ ...units, rounding: e.target.value as UnitSettings['rounding'] })} className={selectClass}>
+                  {Object.entries(ROUNDING_MODES).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                </select>
+              </label>
+            </div>
+            <p className="text-[10px] text-gray-400 mt-2">
+              Chaque quantité est arrondie, les totaux sont la somme des quantités arrondies. Exemple : {formatQuantity(1234.5678, 'area', units)}
+            </p>
+          </div>
+
+          <div>
+            <p className="text-[10px] text-gray-400 font-bold uppercase tracking-wider mb-2">Par calque</p>
+            {measurementLayers.length === 0 && <p className="text-gray-400 text-center text-sm py-4 italic">Aucun calque de métré.</p>}
+            {measurementLayers.map(layer => {
+              const kind = layerQuantityKind(layer);
+              const resolved = resolveUnitSettings(units, layer);
+              const unitKey = kind === 'area' ? 'areaUnit' : 'lengthUnit';
+              const unitOptions = kind === 'area' ? AREA_UNITS : LENGTH_UNITS;
+              return (
+                <div key={layer.id} className="grid grid-cols-[1fr_repeat(3,8rem)] gap-2 items-center py-1.5 text-sm">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: layer.color }} />
+                    <span className="truncate text-gray-800">{layer.name}</span>
+                  </span>
+                  <select value={layer.units?.[unitKey] ?? ''} onChange={(e) => updateLayer(layer, unitKey, e.target.value)} className={selectClass} title="Unité">
+                    <option value="">Projet ({unitLabel(kind, units)})</option>
+                    {Object.entries(unitOptions).map(([id, unit]) => <option key={id} value={id}>{unit.label}</option>)}
+                  </select>
+                  <select value={layer.units?.decimals ?? ''} onChange={(e) => updateLayer(layer, 'decimals', e.target.value)} className={selectClass} title="Décimales">
+                    <option value="">Projet ({units.decimals} déc.)</option>
+                    {DECIMAL_OPTIONS.map(d => <option key={d} value={d}>{d} déc.</option>)}
+                  </select>
+                  <select value={layer.units?.rounding ?? ''} onChange={(e) => updateLayer(layer, 'rounding', e.target.value)} className={selectClass} title={`Arrondi : ${ROUNDING_MODES[resolved.rounding]}`}>
+                    <option value="">Projet</option>
+                    {Object.entries(ROUNDING_MODES).map(([id, label]) => <option key={id} value={id}>{label}</option>)}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 border-t bg-gray-50 flex justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium">Fermer</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnitsModal;
@@ -0,0 +1,75 @@
+import { useState, useRef, useCallback } from 'react';
+
+interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+  coalesceKey?: string;
+  time: number;
+}
+
+const MAX_HISTORY = 100;
+// Consecutive edits sharing a coalesce key within this delay form a single step (e.g. dragging a slider)
+const COALESCE_DELAY_MS = 1000;
+
+/**
+ * Snapshot-based undo/redo stack.
+ * Call `record(label)` right before mutating the state, `undo()`/`redo()` restore snapshots through `restore`.
+ */
+export const useHistory = <T,>(current: T, restore: (snapshot: T) => void) => {
+  const pastRef = useRef<HistoryEntry<T>[]>([]);
+  const futureRef = useRef<HistoryEntry<T>[]>([]);
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  // Bumped on every stack change so consumers re-render (button states, labels)
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  const record = useCallback((label: string, coalesceKey?: string) => {
+    const past = pastRef.current;
+    const last = past[past.length - 1];
+    const now = Date.now();
+    if (coalesceKey && last && last.coalesceKey === coalesceKey && now - last.time < COALESCE_DELAY_MS && futureRef.current.length === 0) {
+      last.time = now;
+      return;
+    }
+    past.push({ label, snapshot: currentRef.current, coalesceKey, time: now });
+    if (past.length > MAX_HISTORY) past.shift();
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current.pop();
+    if (!entry) return;
+    futureRef.current.push({ ...entry, snapshot: currentRef.current });
+    restore(entry.snapshot);
+    bump();
+  }, [restore]);
+
+  const redo = useCallback(() => {
+    const entry = futureRef.current.pop();
+    if (!entry) return;
+    pastRef.current.push({ ...entry, snapshot: currentRef.current, coalesceKey: undefined });
+    restore(entry.snapshot);
+    bump();
+  }, [restore]);
+
+  const reset = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  }, []);
+
+  const past = pastRef.current;
+  const future = futureRef.current;
+  return {
+    record,
+    undo,
+    redo,
+    reset,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.label,
+    redoLabel: future[future.length - 1]?.label
+  };
+};
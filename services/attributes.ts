@@ -0,0 +1,78 @@
+import { Shape } from "../types";
+
+// Descriptive properties of shapes: description, tags, lot and free key/value attributes
+
+export type ShapeProperties = Pick<Shape, 'name' | 'description' | 'tags' | 'lot' | 'attributes'>;
+
+// "a, b ,a" -> ["a", "b"]
+export const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(t => t.trim()).filter(Boolean))];
+
+// Label/value pairs for exports, in a stable order; empty properties are left out
+export const shapeAttributeEntries = (shape: Shape): [string, string][] => {
+  const entries: [string, string][] = [];
+  if (shape.lot) entries.push(['lot', shape.lot]);
+  if (shape.tags && shape.tags.length > 0) entries.push(['tags', shape.tags.join(', ')]);
+  if (shape.description) entries.push(['description', shape.description]);
+  Object.entries(shape.attributes || {}).forEach(entry => entries.push(entry));
+  return entries;
+};
+
+// Attribute keys used by a set of shapes, for tabular exports
+export const attributeKeys = (shapes: Shape[]): string[] =>
+  [...new Set(shapes.flatMap(s => Object.keys(s.attributes || {})))].sort((a, b) => a.localeCompare(b, 'fr'));
+
+// Case and accent insensitive ("oeuvre" finds "Œuvre")
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/œ/g, 'oe').replace(/æ/g, 'ae');
+
+// ">100", "<=2,5", "10..20" (bounds included)
+const RANGE_PATTERN = /^(?:(<=|>=|<|>)(\d+(?:[.,]\d+)?)|(\d+(?:[.,]\d+)?)\.\.(\d+(?:[.,]\d+)?))$/;
+
+const matchesRange = (match: RegExpMatchArray, value: number | undefined): boolean => {
+  if (value === undefined) return false;
+  const toNumber = (text: string) => parseFloat(text.replace(',', '.'));
+  if (match[3] !== undefined) return value >= toNumber(match[3]) && value <= toNumber(match[4]);
+  const bound = toNumber(match[2]);
+  switch (match[1]) {
+    case '<': return value < bound;
+    case '<=': return value <= bound;
+    case '>': return value > bound;
+    default: return value >= bound;
+  }
+};
+
+// Filter syntax, every term must match:
+//   #tag         shape has the tag
+//   lot=02       lot contains "02"
+//   key=value    attribute "key" contains "value" (key=  : attribute is set)
+//   >100, 10..20 quantity in the layer's display unit (shapes without quantity never match)
+//   text         name, description, lot, tags or any attribute value contains the text
+export const matchesShapeFilter = (shape: Shape, query: string, displayValue?: number): boolean => {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  return terms.every(term => {
+    const range = term.match(RANGE_PATTERN);
+    if (range) return matchesRange(range, displayValue);
+    const t = normalize(term);
+    if (t.startsWith('#')) return (shape.tags || []).some(tag => normalize(tag).includes(t.slice(1)));
+    const separator = t.indexOf('=');
+    if (separator > 0) {
+      const key = t.slice(0, separator);
+      const value = t.slice(separator + 1);
+      if (key === 'lot') return !!shape.lot && normalize(shape.lot).includes(value);
+      const entry = Object.entries(shape.attributes || {}).find(([k]) => normalize(k) === key);
+      return !!entry && normalize(entry[1]).includes(value);
+    }
+    const haystack = [shape.name, shape.description || '', shape.lot || '', ...(shape.tags || []), ...Object.values(shape.attributes || {})];
+    return haystack.some(value => normalize(value).includes(t));
+  });
+};
+
+// Free text properties as stored: empty strings and empty collections are dropped
+export const cleanProperties = (properties: Partial<ShapeProperties>): Partial<ShapeProperties> => {
+  const cleaned: Partial<ShapeProperties> = { ...properties };
+  if ('description' in cleaned && !cleaned.description?.trim()) cleaned.description = undefined;
+  if ('lot' in cleaned && !cleaned.lot?.trim()) cleaned.lot = undefined;
+  if ('tags' in cleaned && (!cleaned.tags || cleaned.tags.length === 0)) cleaned.tags = undefined;
+  if ('attributes' in cleaned && (!cleaned.attributes || Object.keys(cleaned.attributes).length === 0)) cleaned.attributes = undefined;
+  return cleaned;
+};
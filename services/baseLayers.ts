@@ -0,0 +1,119 @@
+import { TileSourceConfig, TileSourceKind } from "../types";
+import { MbTilesArchive, mbTilesObjectUrl } from "./mbtiles";
+
+// Registry of tile sources: the built-in ones plus those added by the user (per browser).
+// XYZ and WMTS sources are URL templates, WMS sources an endpoint and layer names, MBTiles
+// sources a local file read on demand, to be reopened after each reload.
+
+// Tiles as the off-screen renderer fetches them
+export interface TileSource {
+  getUrl: (x: number, y: number, z: number) => Promise<string | null>;
+  maxNativeZoom: number;
+}
+
+export const TILE_SOURCE_KINDS: Record<TileSourceKind, string> = {
+  xyz: 'XYZ ({z}/{x}/{y})',
+  wmts: 'WMTS (grille PM)',
+  wms: 'WMS',
+  mbtiles: 'MBTiles (hors ligne)'
+};
+
+const IGN_WMTS = 'https://data.geopf.fr/wmts?SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0&TILEMATRIXSET=PM&TILEMATRIX={TileMatrix}&TILEROW={TileRow}&TILECOL={TileCol}';
+
+export const BUILT_IN_TILE_SOURCES: TileSourceConfig[] = [
+  { id: 'plan', name: 'Plan (Google)', kind: 'xyz', url: 'https://mt1.google.com/vt/lyrs=m&x={x}&y={y}&z={z}', attribution: 'Google', maxZoom: 20, builtIn: true },
+  { id: 'satellite', name: 'Satellite (Google)', kind: 'xyz', url: 'https://mt1.google.com/vt/lyrs=y&x={x}&y={y}&z={z}', attribution: 'Google Hybrid', maxZoom: 20, builtIn: true },
+  { id: 'osm', name: 'OpenStreetMap', kind: 'xyz', url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png', attribution: '© les contributeurs OpenStreetMap', maxZoom: 19, builtIn: true },
+  { id: 'ign-ortho', name: 'Orthophotos IGN', kind: 'wmts', url: `${IGN_WMTS}&LAYER=ORTHOIMAGERY.ORTHOPHOTOS&STYLE=normal&FORMAT=image/jpeg`, attribution: 'IGN-F / Géoplateforme', maxZoom: 19, builtIn: true },
+  { id: 'ign-plan', name: 'Plan IGN', kind: 'wmts', url: `${IGN_WMTS}&LAYER=GEOGRAPHICALGRIDSYSTEMS.PLANIGNV2&STYLE=normal&FORMAT=image/png`, attribution: 'IGN-F / Géoplateforme', maxZoom: 19, builtIn: true },
+  { id: 'ign-cadastre', name: 'Cadastre (IGN)', kind: 'wms', url: 'https://data.geopf.fr/wms-r', wmsLayers: 'CADASTRALPARCELS.PARCELLAIRE_EXPRESS', wmsFormat: 'image/png', attribution: 'IGN-F / DGFiP', maxZoom: 21, overlay: true, builtIn: true }
+];
+
+export const DEFAULT_BASE_LAYER = 'plan';
+export const MAX_TILE_ZOOM = 22;
+
+// The base source, falling back to the default when the id is unknown (source removed, other browser)
+export const resolveBaseSource = (sources: TileSourceConfig[], id: string): TileSourceConfig =>
+  sources.find(s => s.id === id && !s.overlay) || sources.find(s => s.id === DEFAULT_BASE_LAYER)!;
+
+// WMTS templates (RESTful or KVP) use the tile matrix placeholders; the PM matrix set is the XYZ grid
+export const xyzTemplate = (source: TileSourceConfig) => source.kind === 'wmts'
+  ? source.url.replace(/\{TileMatrix\}/gi, '{z}').replace(/\{TileRow\}/gi, '{y}').replace(/\{TileCol\}/gi, '{x}')
+  : source.url;
+
+// Web Mercator extent (metres)
+const WORLD_SIZE = 2 * Math.PI * 6378137;
+
+const wmsTileUrl = (source: TileSourceConfig, x: number, y: number, z: number) => {
+  const size = WORLD_SIZE / Math.pow(2, z);
+  const minX = -WORLD_SIZE / 2 + x * size;
+  const maxY = WORLD_SIZE / 2 - y * size;
+  const params = new URLSearchParams({
+    SERVICE: 'WMS', REQUEST: 'GetMap', VERSION: '1.1.1', SRS: 'EPSG:3857',
+    LAYERS: source.wmsLayers || '', STYLES: '', FORMAT: source.wmsFormat || 'image/png', TRANSPARENT: 'true',
+    WIDTH: '256', HEIGHT: '256', BBOX: [minX, maxY - size, minX + size, maxY].join(',')
+  });
+  return `${source.url}${source.url.includes('?') ? '&' : '?'}${params}`;
+};
+
+// Undefined when the tiles cannot be fetched (MBTiles file not opened in this session)
+export const snapshotTiles = (source: TileSourceConfig, archive?: MbTilesArchive): TileSource | undefined => {
+  if (source.kind === 'mbtiles') {
+    return archive ? { getUrl: (x, y, z) => mbTilesObjectUrl(archive, z, x, y), maxNativeZoom: archive.maxZoom } : undefined;
+  }
+  if (source.kind === 'wms') return { getUrl: async (x, y, z) => wmsTileUrl(source, x, y, z), maxNativeZoom: MAX_TILE_ZOOM };
+  const template = xyzTemplate(source);
+  return {
+    getUrl: async (x, y, z) => template.replace('{x}', String(x)).replace('{y}', String(y)).replace('{z}', String(z)).replace('{s}', 'a'),
+    maxNativeZoom: source.maxZoom
+  };
+};
+
+// Null when the source can be registered
+export const tileSourceError = (source: TileSourceConfig): string | null => {
+  if (!source.name.trim()) return "Nom manquant.";
+  if (!Number.isInteger(source.maxZoom) || source.maxZoom < 1 || source.maxZoom > MAX_TILE_ZOOM) {
+    return `Le zoom maximal doit être un entier entre 1 et ${MAX_TILE_ZOOM}.`;
+  }
+  if (source.kind === 'mbtiles') return null;
+  if (!/^https?:\/\//i.test(source.url.trim())) return "L'URL doit commencer par http:// ou https://.";
+  if (source.kind === 'xyz' && !['{x}', '{y}', '{z}'].every(p => source.url.includes(p))) {
+    return "Le modèle d'URL XYZ doit contenir {x}, {y} et {z}.";
+  }
+  if (source.kind === 'wmts' && !['{x}', '{y}', '{z}'].every(p => xyzTemplate(source).includes(p))) {
+    return "Le modèle d'URL WMTS doit contenir {TileMatrix}, {TileRow} et {TileCol}.";
+  }
+  if (source.kind === 'wms' && !source.wmsLayers?.trim()) return "Indiquez au moins une couche WMS.";
+  return null;
+};
+
+// --- Custom sources (per browser) ---
+
+const TILE_SOURCES_KEY = 'metremaster:tileSources';
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTileSource = (value: unknown): value is TileSourceConfig =>
+  isObject(value) && typeof value.id === 'string' && typeof value.name === 'string'
+  && typeof value.kind === 'string' && value.kind in TILE_SOURCE_KINDS
+  && typeof value.url === 'string' && typeof value.attribution === 'string' && Number.isFinite(value.maxZoom);
+
+export const loadCustomTileSources = (): TileSourceConfig[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TILE_SOURCES_KEY) || '[]');
+    const builtInIds = new Set(BUILT_IN_TILE_SOURCES.map(s => s.id));
+    return Array.isArray(parsed)
+      ? parsed.filter(isTileSource).filter(s => !builtInIds.has(s.id))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomTileSources = (sources: TileSourceConfig[]) => {
+  try {
+    localStorage.setItem(TILE_SOURCES_KEY, JSON.stringify(sources));
+  } catch {
+    // Storage may be disabled (private mode); the sources then last for the session
+  }
+};
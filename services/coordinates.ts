@@ -0,0 +1,209 @@
+import { GeoPoint } from "../types";
+
+// Location input: decimal pairs, DMS, Lambert-93 and map links (Google Maps, OpenStreetMap,
+// Apple Plans, geo: URIs). Returns null when the text is not recognized.
+
+export type LocationSource = 'decimal' | 'dms' | 'lambert93' | 'google' | 'osm' | 'apple' | 'geo';
+
+export interface ParsedLocation {
+  point: GeoPoint;
+  zoom?: number; // When the link carries one
+  source: LocationSource;
+}
+
+export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  decimal: 'Coordonnées décimales',
+  dms: 'Degrés, minutes, secondes',
+  lambert93: 'Lambert-93 (X / Y)',
+  google: 'Lien Google Maps',
+  osm: 'Lien OpenStreetMap',
+  apple: 'Lien Plans (Apple)',
+  geo: 'URI geo:'
+};
+
+const NUMBER = '-?\\d+(?:[.,]\\d+)?';
+
+const toNumber = (text: string) => parseFloat(text.replace(',', '.'));
+
+const isValidPoint = (lat: number, lng: number) =>
+  Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+const toPoint = (lat: number, lng: number): GeoPoint | null => isValidPoint(lat, lng) ? { lat, lng } : null;
+
+const toZoom = (text: string | null | undefined): number | undefined => {
+  const zoom = text ? parseFloat(text) : NaN;
+  return Number.isFinite(zoom) ? Math.min(20, Math.max(1, Math.round(zoom))) : undefined;
+};
+
+// "48.85, 2.35", "48.85 2.35", "48,85; 2,35"
+const DECIMAL_PAIR = new RegExp(`^(${NUMBER})\\s*[,;\\s]\\s*(${NUMBER})$`);
+
+const parseDecimalPair = (text: string): GeoPoint | null => {
+  const match = text.trim().match(DECIMAL_PAIR);
+  return match ? toPoint(toNumber(match[1]), toNumber(match[2])) : null;
+};
+
+// --- DMS ---
+
+// Hemisphere before the value ("N 48° 51.4'") or after it ("48°51'24"N"); O is the French "Ouest"
+const DMS_VALUE = `(\\d+(?:[.,]\\d+)?)\\s*°?\\s*(?:(\\d+(?:[.,]\\d+)?)\\s*['′’]\\s*)?(?:(\\d+(?:[.,]\\d+)?)\\s*(?:["″”]|'')\\s*)?`;
+const DMS_PREFIXED = new RegExp(`([NSEWO])\\s*${DMS_VALUE}`, 'gi');
+const DMS_SUFFIXED = new RegExp(`(-?)(\\d+(?:[.,]\\d+)?)\\s*°\\s*(?:(\\d+(?:[.,]\\d+)?)\\s*['′’]\\s*)?(?:(\\d+(?:[.,]\\d+)?)\\s*(?:["″”]|'')\\s*)?([NSEWO])?`, 'gi');
+
+interface DmsPart {
+  value: number;
+  axis: 'lat' | 'lng' | null; // From the hemisphere letter
+}
+
+const dmsPart = (degrees: string, minutes: string | undefined, seconds: string | undefined, hemisphere: string | undefined, negative: boolean): DmsPart | null => {
+  const m = minutes ? toNumber(minutes) : 0;
+  const s = seconds ? toNumber(seconds) : 0;
+  if (m >= 60 || s >= 60) return null;
+  const h = hemisphere?.toUpperCase();
+  const sign = negative || h === 'S' || h === 'W' || h === 'O' ? -1 : 1;
+  return { value: sign * (toNumber(degrees) + m / 60 + s / 3600), axis: h === 'N' || h === 'S' ? 'lat' : h ? 'lng' : null };
+};
+
+const parseDms = (text: string): GeoPoint | null => {
+  const trimmed = text.trim();
+  const prefixed = /^[NSEWO]/i.test(trimmed);
+  const matches = [...trimmed.matchAll(prefixed ? DMS_PREFIXED : DMS_SUFFIXED)];
+  if (matches.length !== 2) return null;
+  // Nothing but separators between and around the two values
+  if (trimmed.replace(prefixed ? DMS_PREFIXED : DMS_SUFFIXED, '').replace(/[\s,;/]/g, '') !== '') return null;
+  const parts = matches.map(m => prefixed
+    ? dmsPart(m[2], m[3], m[4], m[1], false)
+    : dmsPart(m[2], m[3], m[4], m[5], m[1] === '-'));
+  if (parts.some(p => !p)) return null;
+  const [first, second] = parts as DmsPart[];
+  if (first.axis && first.axis === second.axis) return null;
+  // Without hemisphere letters the order is latitude then longitude
+  return first.axis === 'lng' || second.axis === 'lat' ? toPoint(second.value, first.value) : toPoint(first.value, second.value);
+};
+
+// --- Lambert-93 (RGF93, considered identical to WGS84 at this scale) ---
+
+const LAMBERT93 = {
+  n: 0.7256077650532670,
+  c: 11754255.426096,
+  xs: 700000,
+  ys: 12655612.049876,
+  e: 0.0818191910428158, // GRS80 eccentricity
+  lng0: 3 * Math.PI / 180
+};
+
+export const lambert93ToWgs84 = (x: number, y: number): GeoPoint => {
+  const { n, c, xs, ys, e, lng0 } = LAMBERT93;
+  const dx = x - xs;
+  const dy = y - ys;
+  const r = Math.sqrt(dx * dx + dy * dy);
+  const gamma = Math.atan(dx / -dy);
+  const isometricLat = -Math.log(Math.abs(r / c)) / n;
+  // Latitude from the isometric latitude, by fixed-point iteration
+  let lat = 2 * Math.atan(Math.exp(isometricLat)) - Math.PI / 2;
+  for (let i = 0; i < 20; i++) {
+    const eSin = e * Math.sin(lat);
+    const next = 2 * Math.atan(Math.pow((1 + eSin) / (1 - eSin), e / 2) * Math.exp(isometricLat)) - Math.PI / 2;
+    if (Math.abs(next - lat) < 1e-12) {
+      lat = next;
+      break;
+    }
+    lat = next;
+  }
+  return { lat: lat * 180 / Math.PI, lng: (lng0 + gamma / n) * 180 / Math.PI };
+};
+
+// "652469 6861720", "X=652469,5 Y=6861720,2", "L93: 652469; 6861720"
+const LAMBERT_PAIR = /^(?:l(?:ambert)?[\s-]*93\s*:?\s*)?(?:x\s*[=:]?\s*)?(\d{5,7}(?:[.,]\d+)?)\s*[,;\s]\s*(?:y\s*[=:]?\s*)?(\d{7}(?:[.,]\d+)?)$/i;
+
+const parseLambert93 = (text: string): GeoPoint | null => {
+  const match = text.trim().match(LAMBERT_PAIR);
+  if (!match) return null;
+  const x = toNumber(match[1]);
+  const y = toNumber(match[2]);
+  // Extent of metropolitan France, with a margin
+  if (x < 0 || x > 1300000 || y < 6000000 || y > 7200000) return null;
+  return lambert93ToWgs84(x, y);
+};
+
+// --- Map links ---
+
+const pairFrom = (value: string | null): GeoPoint | null => value ? parseDecimalPair(decodeURIComponent(value).replace(/\(.*\)$/, '')) : null;
+
+const parseGeoUri = (text: string): ParsedLocation | null => {
+  // geo:48.85,2.35;u=35?z=17 or geo:0,0?q=48.85,2.35(label)
+  const match = text.trim().match(new RegExp(`^geo:(${NUMBER}),(${NUMBER})(?:,${NUMBER})?([^?]*)(?:\\?(.*))?$`, 'i'));
+  if (!match) return null;
+  const params = new URLSearchParams(match[4] || '');
+  const point = pairFrom(params.get('q')) || toPoint(toNumber(match[1]), toNumber(match[2]));
+  return point ? { point, zoom: toZoom(params.get('z')), source: 'geo' } : null;
+};
+
+const parseUrl = (text: string): ParsedLocation | null => {
+  let url: URL;
+  try {
+    url = new URL(text.trim());
+  } catch {
+    return null;
+  }
+  const host = url.hostname.toLowerCase();
+  const params = url.searchParams;
+
+  if (host.includes('openstreetmap')) {
+    const mlat = params.get('mlat');
+    const mlon = params.get('mlon');
+    const view = url.hash.match(new RegExp(`map=(\\d+(?:\\.\\d+)?)/(${NUMBER})/(${NUMBER})`));
+    const zoom = toZoom(view?.[1] || params.get('zoom'));
+    // The marker (mlat/mlon) wins over the view centre
+    const point = mlat && mlon ? toPoint(toNumber(mlat), toNumber(mlon)) : view ? toPoint(toNumber(view[2]), toNumber(view[3])) : null;
+    return point ? { point, zoom, source: 'osm' } : null;
+  }
+
+  if (host.includes('apple.com')) {
+    const point = pairFrom(params.get('coordinate')) || pairFrom(params.get('ll')) || pairFrom(params.get('q')) || pairFrom(params.get('sll'));
+    return point ? { point, zoom: toZoom(params.get('z')), source: 'apple' } : null;
+  }
+
+  if (host.includes('google.') || host.includes('goo.gl')) {
+    const href = decodeURIComponent(url.href);
+    // !3d/!4d is the place itself, @ only the centre of the view
+    const place = href.match(new RegExp(`!3d(${NUMBER})!4d(${NUMBER})`));
+    const view = href.match(new RegExp(`@(${NUMBER}),(${NUMBER})(?:,(\\d+(?:\\.\\d+)?)z)?`));
+    const point = (place && toPoint(toNumber(place[1]), toNumber(place[2])))
+      || pairFrom(params.get('q')) || pairFrom(params.get('query')) || pairFrom(params.get('ll')) || pairFrom(params.get('center'))
+      || (view && toPoint(toNumber(view[1]), toNumber(view[2])));
+    return point ? { point, zoom: toZoom(view?.[3] || params.get('z') || params.get('zoom')), source: 'google' } : null;
+  }
+  return null;
+};
+
+export const parseLocation = (text: string): ParsedLocation | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  if (/^geo:/i.test(trimmed)) return parseGeoUri(trimmed);
+  if (/^https?:\/\//i.test(trimmed)) return parseUrl(trimmed);
+
+  const lambert = parseLambert93(trimmed);
+  if (lambert) return { point: lambert, source: 'lambert93' };
+  const decimal = parseDecimalPair(trimmed);
+  if (decimal) return { point: decimal, source: 'decimal' };
+  const dms = parseDms(trimmed);
+  return dms ? { point: dms, source: 'dms' } : null;
+};
+
+// --- Display ---
+
+export const formatLatLng = (point: GeoPoint) => `${point.lat.toFixed(6)}, ${point.lng.toFixed(6)}`;
+
+const formatDmsValue = (value: number, positive: string, negative: string) => {
+  const abs = Math.abs(value);
+  let degrees = Math.floor(abs);
+  let minutes = Math.floor((abs - degrees) * 60);
+  let seconds = Math.round(((abs - degrees) * 60 - minutes) * 600) / 10;
+  if (seconds >= 60) { seconds = 0; minutes++; }
+  if (minutes >= 60) { minutes = 0; degrees++; }
+  return `${degrees}°${String(minutes).padStart(2, '0')}'${seconds.toFixed(1).padStart(4, '0')}"${value < 0 ? negative : positive}`;
+};
+
+// 48°51'12.3"N 2°20'56.4"E (west is written O, as in French)
+export const formatDms = (point: GeoPoint) => `${formatDmsValue(point.lat, 'N', 'S')} ${formatDmsValue(point.lng, 'E', 'O')}`;
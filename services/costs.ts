@@ -0,0 +1,87 @@
+import { Layer, LayerPricing, UnitSettings } from "../types";
+import { layerQuantityKind, resolveUnitSettings, roundQuantity, toDisplayPrice, unitLabel } from "./units";
+
+// Cost estimate (devis) from the layer totals: quantity × (1 + waste) × unit price.
+// Prices are stored per m² or m so that changing a layer's display unit does not reprice it.
+
+export interface LayerCost {
+  layer: Layer;
+  quantity: number; // Measured, in the layer's display unit
+  unit: string;
+  decimals: number;
+  wastePercent: number;
+  billedQuantity: number; // Quantity including waste
+  unitPrice: number; // Per display unit, as shown next to the quantity
+  amountHT: number;
+  vatRate: number;
+  vat: number;
+  amountTTC: number;
+}
+
+export interface VatLine {
+  rate: number;
+  base: number;
+  vat: number;
+}
+
+export interface CostSummary {
+  lines: LayerCost[];
+  totalHT: number;
+  totalVAT: number;
+  totalTTC: number;
+  vatLines: VatLine[]; // One per VAT rate, as on an invoice
+}
+
+export const VAT_RATES = [20, 10, 5.5, 0];
+
+export const DEFAULT_PRICING: LayerPricing = { unitPrice: 0, wastePercent: 0, vatRate: 20 };
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export const computeCostSummary = (layers: Layer[], layerTotals: Record<string, number>, units: UnitSettings): CostSummary => {
+  const lines = layers
+    .filter(l => l.category === 'measurement' && l.pricing)
+    .map(layer => {
+      const pricing = layer.pricing!;
+      const layerUnits = resolveUnitSettings(units, layer);
+      const kind = layerQuantityKind(layer);
+      const quantity = layerTotals[layer.id] || 0;
+      const billedQuantity = roundQuantity(quantity * (1 + pricing.wastePercent / 100), layerUnits);
+      const unitPrice = toDisplayPrice(pricing.unitPrice, kind, layerUnits);
+      const amountHT = roundCents(billedQuantity * unitPrice);
+      const vat = roundCents(amountHT * pricing.vatRate / 100);
+      return {
+        layer,
+        quantity,
+        unit: unitLabel(kind, layerUnits),
+        decimals: layerUnits.decimals,
+        wastePercent: pricing.wastePercent,
+        billedQuantity,
+        unitPrice,
+        amountHT,
+        vatRate: pricing.vatRate,
+        vat,
+        amountTTC: roundCents(amountHT + vat)
+      };
+    });
+
+  const vatLines: VatLine[] = [];
+  lines.forEach(line => {
+    const existing = vatLines.find(v => v.rate === line.vatRate);
+    if (existing) {
+      existing.base = roundCents(existing.base + line.amountHT);
+      existing.vat = roundCents(existing.vat + line.vat);
+    } else {
+      vatLines.push({ rate: line.vatRate, base: line.amountHT, vat: line.vat });
+    }
+  });
+  vatLines.sort((a, b) => b.rate - a.rate);
+
+  const totalHT = roundCents(lines.reduce((sum, l) => sum + l.amountHT, 0));
+  const totalVAT = roundCents(lines.reduce((sum, l) => sum + l.vat, 0));
+  return { lines, totalHT, totalVAT, totalTTC: roundCents(totalHT + totalVAT), vatLines };
+};
+
+export const formatCurrency = (value: number) => value.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' });
+
+export const formatPercent = (value: number) => `${value.toLocaleString('fr-FR', { maximumFractionDigits: 2 })} %`;
@@ -0,0 +1,71 @@
+import { DerivedFormula, DerivedQuantity, DerivedUnit, Layer, Shape, UnitSettings } from "../types";
+import { formatNumber, layerQuantityKind, roundQuantity } from "./units";
+
+// Derived quantities: computed from the layer's measured total in m / m², rounded like the layer
+
+export const DERIVED_FORMULAS: Record<DerivedFormula, { name: string; parameterLabel: string; example: string }> = {
+  height: { name: 'Hauteur', parameterLabel: 'Hauteur (m)', example: 'Surface de mur = linéaire × hauteur, volume = surface × hauteur' },
+  thickness: { name: 'Épaisseur', parameterLabel: 'Épaisseur (m)', example: 'Volume de béton = surface × épaisseur, surface = linéaire × largeur' },
+  coverage: { name: 'Rendement', parameterLabel: 'Quantité (m² ou m) couverte par unité', example: 'Carreaux = surface ÷ 0,36 m² par carreau' },
+  multiplier: { name: 'Coefficient', parameterLabel: 'Quantité par m² ou par m', example: 'Piquets = linéaire × 0,5 par mètre, peinture = surface × 0,25 L/m²' }
+};
+
+export const DERIVED_UNITS: Record<DerivedUnit, { label: string; name: string }> = {
+  m: { label: 'm', name: 'Mètre' },
+  m2: { label: 'm²', name: 'Mètre carré' },
+  m3: { label: 'm³', name: 'Mètre cube' },
+  u: { label: 'u', name: 'Unités' },
+  l: { label: 'L', name: 'Litres' }
+};
+
+// Units the result can take, the first being the default. Height and thickness add a dimension to
+// the layer's (length → area, area → volume); rendement and coefficient give the unit the parameter
+// is expressed in (pieces, litres, or the layer's own unit).
+export const derivedUnitsFor = (formula: DerivedFormula, layer: Layer): DerivedUnit[] => {
+  const isSurface = layerQuantityKind(layer) === 'area';
+  if (formula === 'height' || formula === 'thickness') return isSurface ? ['m3', 'l'] : ['m2'];
+  return ['u', 'l', isSurface ? 'm2' : 'm'];
+};
+
+// The stored unit, or the default when it no longer fits the formula and layer (older files)
+export const resolveDerivedUnit = (derived: DerivedQuantity, layer: Layer): DerivedUnit => {
+  const units = derivedUnitsFor(derived.formula, layer);
+  return units.includes(derived.unit) ? derived.unit : units[0];
+};
+
+// Measured total of the layer in m or m², before unit conversion and rounding
+const baseTotal = (layer: Layer, shapes: Shape[]) =>
+  shapes.filter(s => s.layerId === layer.id && s.type !== 'point').reduce((sum, s) => sum + s.measuredValue, 0);
+
+// Null when the parameter makes the formula meaningless (coverage of 0)
+export const computeDerivedQuantity = (derived: DerivedQuantity, layer: Layer, shapes: Shape[], settings: UnitSettings): number | null => {
+  const base = baseTotal(layer, shapes);
+  const unit = resolveDerivedUnit(derived, layer);
+  let value: number;
+  if (derived.formula === 'coverage') {
+    if (derived.parameter <= 0) return null;
+    value = base / derived.parameter;
+  } else {
+    value = base * derived.parameter;
+  }
+  // Height and thickness give m³ on a surface; litres are the same volume
+  const isGeometric = derived.formula === 'height' || derived.formula === 'thickness';
+  if (isGeometric && unit === 'l') value *= 1000;
+  // Pieces are always counted whole, rounded up
+  if (unit === 'u') return roundQuantity(value, { ...settings, decimals: 0, rounding: 'up' });
+  return roundQuantity(value, settings);
+};
+
+export const formatDerivedQuantity = (value: number, derived: DerivedQuantity, layer: Layer, settings: UnitSettings) => {
+  const unit = resolveDerivedUnit(derived, layer);
+  return `${formatNumber(value, unit === 'u' ? 0 : settings.decimals)} ${DERIVED_UNITS[unit].label}`;
+};
+
+export const isValidDerivedQuantity = (value: unknown): value is DerivedQuantity => {
+  if (typeof value !== 'object' || value === null) return false;
+  const derived = value as Record<string, unknown>;
+  return typeof derived.label === 'string'
+    && typeof derived.formula === 'string' && derived.formula in DERIVED_FORMULAS
+    && typeof derived.unit === 'string' && derived.unit in DERIVED_UNITS
+    && typeof derived.parameter === 'number' && Number.isFinite(derived.parameter) && derived.parameter >= 0;
+};
@@ -0,0 +1,19 @@
+// Triggers a browser download for generated content (project files, exports...)
+export const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser time to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Removes characters that are not allowed in file names
+export const toSafeFilename = (name: string, fallback = 'projet') => {
+  const clean = name.replace(/[\\/:*?"<>|]+/g, '').trim();
+  return clean || fallback;
+};
@@ -1,22 +1,52 @@
 import { GoogleGenAI } from "@google/genai";
-import { Layer, Shape } from "../types";
+import { Layer, Shape, UnitSettings } from "../types";
+import { layerQuantityKind, layerTotal, resolveUnitSettings, unitLabel } from "./units";
+import { CostSummary } from "./costs";
+import { computeDerivedQuantity, formatDerivedQuantity } from "./derived";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export const analyzeMeasurements = async (layers: Layer[], shapes: Shape[]): Promise<string> => {
-  // Aggregate data for the prompt
+export const analyzeMeasurements = async (layers: Layer[], shapes: Shape[], units: UnitSettings, costs?: CostSummary): Promise<string> => {
+  // Aggregate data for the prompt, in the units and precision shown to the user
   const reportData = layers.map(layer => {
     const layerShapes = shapes.filter(s => s.layerId === layer.id);
-    const total = layerShapes.reduce((sum, shape) => sum + shape.measuredValue, 0);
+    const layerUnits = resolveUnitSettings(units, layer);
     return {
       layerName: layer.name,
       type: layer.type === 'surface' ? 'Surface Area' : 'Linear Length',
-      totalValue: total.toFixed(2),
-      unit: layer.type === 'surface' ? 'm²' : 'm',
-      itemCount: layerShapes.length
+      totalValue: layerTotal(layer, shapes, layerUnits).toFixed(layerUnits.decimals),
+      unit: unitLabel(layerQuantityKind(layer), layerUnits),
+      itemCount: layerShapes.length,
+      ...(layer.derived ? {
+        derivedQuantity: `${layer.derived.label} : ${formatDerivedQuantity(computeDerivedQuantity(layer.derived, layer, shapes, layerUnits) ?? 0, layer.derived, layer, layerUnits)}`
+      } : {})
     };
   });
 
+  const budgetData = costs && costs.lines.length > 0 ? {
+    lines: costs.lines.map(line => ({
+      layerName: line.layer.name,
+      billedQuantity: line.billedQuantity.toFixed(line.decimals),
+      unit: line.unit,
+      wastePercent: line.wastePercent,
+      unitPriceHT: line.unitPrice,
+      amountHT: line.amountHT,
+      vatRate: line.vatRate,
+      amountTTC: line.amountTTC
+    })),
+    totalHT: costs.totalHT,
+    totalVAT: costs.totalVAT,
+    totalTTC: costs.totalTTC
+  } : null;
+
+  const budgetPrompt = budgetData ? `
+    Une estimation chiffrée a été saisie (montants en euros) :
+
+    ${JSON.stringify(budgetData, null, 2)}
+
+    4. Commente ce budget : cohérence des prix unitaires et des taux de pertes avec les prix du marché, postes qui pèsent le plus, oublis éventuels.
+  ` : '';
+
   const prompt = `
     Tu es un assistant expert en bâtiment et travaux publics (BTP).
     Voici un relevé de métrés réalisé sur un plan :
@@ -27,6 +57,7 @@ export const analyzeMeasurements = async (layers: Layer[], shapes: Shape[]): Pro
     1. Fais un résumé professionnel des quantités.
     2. Suggère des matériaux ou des fournitures typiques nécessaires (ex: litres de peinture pour une surface murale, ml de plinthes pour un périmètre).
     3. Si possible, donne une estimation "à la louche" de la complexité.
+    ${budgetPrompt}
 
     Réponds en format Markdown, clair et concis, en français.
   `;
@@ -0,0 +1,172 @@
+import { GeoPoint, GeocoderProviderId, GeocoderSettings } from "../types";
+
+// Address search behind a provider interface. Providers speak to Nominatim-compatible or
+// BAN (adresse.data.gouv.fr) style HTTP APIs; the base URL can point to a local stand-in.
+
+export interface GeocodeResult {
+  id: string;
+  label: string;
+  point: GeoPoint;
+  bounds?: GeoPoint[]; // South-west and north-east corners, when the service gives an extent
+  zoom?: number; // Suggested zoom when there is no extent
+}
+
+export interface GeocoderProvider {
+  name: string;
+  autocomplete: boolean; // Suggestions while typing; otherwise the search runs on Enter
+  search: (query: string, signal?: AbortSignal) => Promise<GeocodeResult[]>;
+}
+
+export class GeocodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocodingError';
+  }
+}
+
+export const GEOCODER_PROVIDERS: Record<GeocoderProviderId, { name: string; defaultBaseUrl: string; autocomplete: boolean }> = {
+  ban: { name: 'Base Adresse Nationale', defaultBaseUrl: 'https://api-adresse.data.gouv.fr', autocomplete: true },
+  // The public Nominatim usage policy forbids autocomplete
+  nominatim: { name: 'Nominatim (OpenStreetMap)', defaultBaseUrl: 'https://nominatim.openstreetmap.org', autocomplete: false }
+};
+
+export const DEFAULT_GEOCODER_SETTINGS: GeocoderSettings = { provider: 'ban', baseUrl: '' };
+
+// The BAN rejects shorter queries
+export const MIN_QUERY_LENGTH = 3;
+const MAX_RESULTS = 6;
+
+const fetchJson = async (url: string, signal?: AbortSignal): Promise<unknown> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') throw err;
+    throw new GeocodingError("Service de géocodage injoignable.");
+  }
+  if (!response.ok) throw new GeocodingError(`Le service de géocodage a répondu ${response.status}.`);
+  try {
+    return await response.json();
+  } catch {
+    throw new GeocodingError("Réponse du service de géocodage illisible.");
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidPoint = (lat: number, lng: number) => Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+// --- BAN ---
+
+// Zoom by kind of BAN result
+const BAN_ZOOMS: Record<string, number> = { housenumber: 19, street: 17, locality: 16, municipality: 14 };
+
+const createBanProvider = (baseUrl: string): GeocoderProvider => ({
+  name: GEOCODER_PROVIDERS.ban.name,
+  autocomplete: true,
+  search: async (query, signal) => {
+    const params = new URLSearchParams({ q: query, limit: String(MAX_RESULTS), autocomplete: '1' });
+    const data = await fetchJson(`${baseUrl}/search/?${params}`, signal);
+    if (!isObject(data) || !Array.isArray(data.features)) throw new GeocodingError("Réponse du service de géocodage inattendue.");
+    const features: unknown[] = data.features;
+    return features.flatMap((feature): GeocodeResult[] => {
+      if (!isObject(feature) || !isObject(feature.geometry) || !Array.isArray(feature.geometry.coordinates)) return [];
+      const [lng, lat]: unknown[] = feature.geometry.coordinates;
+      if (typeof lat !== 'number' || typeof lng !== 'number' || !isValidPoint(lat, lng)) return [];
+      const properties = isObject(feature.properties) ? feature.properties : {};
+      return [{
+        id: String(properties.id ?? `${lat},${lng}`),
+        label: String(properties.label ?? query),
+        point: { lat, lng },
+        zoom: typeof properties.type === 'string' ? BAN_ZOOMS[properties.type] : undefined
+      }];
+    });
+  }
+});
+
+// --- Nominatim ---
+
+const createNominatimProvider = (baseUrl: string, autocomplete: boolean): GeocoderProvider => ({
+  name: GEOCODER_PROVIDERS.nominatim.name,
+  autocomplete,
+  search: async (query, signal) => {
+    const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: String(MAX_RESULTS), 'accept-language': 'fr' });
+    const data = await fetchJson(`${baseUrl}/search?${params}`, signal);
+    if (!Array.isArray(data)) throw new GeocodingError("Réponse du service de géocodage inattendue.");
+    const places: unknown[] = data;
+    return places.flatMap((place): GeocodeResult[] => {
+      if (!isObject(place)) return [];
+      // Nominatim sends coordinates as strings
+      const lat = parseFloat(String(place.lat));
+      const lng = parseFloat(String(place.lon));
+      if (!isValidPoint(lat, lng)) return [];
+      // boundingbox: [south, north, west, east]
+      const box = Array.isArray(place.boundingbox) ? place.boundingbox.map((v: unknown) => parseFloat(String(v))) : [];
+      const bounds = box.length === 4 && isValidPoint(box[0], box[2]) && isValidPoint(box[1], box[3])
+        ? [{ lat: box[0], lng: box[2] }, { lat: box[1], lng: box[3] }]
+        : undefined;
+      return [{ id: String(place.place_id ?? `${lat},${lng}`), label: String(place.display_name ?? query), point: { lat, lng }, bounds }];
+    });
+  }
+});
+
+export const createGeocoder = (settings: GeocoderSettings): GeocoderProvider => {
+  const defaults = GEOCODER_PROVIDERS[settings.provider];
+  const baseUrl = (settings.baseUrl.trim() || defaults.defaultBaseUrl).replace(/\/+$/, '');
+  if (settings.provider === 'nominatim') {
+    // A self-hosted instance has no autocomplete restriction
+    return createNominatimProvider(baseUrl, baseUrl !== defaults.defaultBaseUrl);
+  }
+  return createBanProvider(baseUrl);
+};
+
+// --- Preferences (per browser) ---
+
+const GEOCODER_SETTINGS_KEY = 'metremaster:geocoder';
+const RECENT_SEARCHES_KEY = 'metremaster:recentSearches';
+const MAX_RECENT_SEARCHES = 8;
+
+export const loadGeocoderSettings = (): GeocoderSettings => {
+  try {
+    const raw = localStorage.getItem(GEOCODER_SETTINGS_KEY);
+    const parsed = raw ? JSON.parse(raw) : null;
+    if (!parsed || !(parsed.provider in GEOCODER_PROVIDERS)) return DEFAULT_GEOCODER_SETTINGS;
+    return { provider: parsed.provider, baseUrl: typeof parsed.baseUrl === 'string' ? parsed.baseUrl : '' };
+  } catch {
+    return DEFAULT_GEOCODER_SETTINGS;
+  }
+};
+
+export const saveGeocoderSettings = (settings: GeocoderSettings) => {
+  try {
+    localStorage.setItem(GEOCODER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be disabled (private mode); settings then last for the session
+  }
+};
+
+const isGeocodeResult = (value: unknown): value is GeocodeResult =>
+  isObject(value) && typeof value.id === 'string' && typeof value.label === 'string' &&
+  isObject(value.point) && typeof value.point.lat === 'number' && typeof value.point.lng === 'number' &&
+  isValidPoint(value.point.lat, value.point.lng);
+
+export const loadRecentSearches = (): GeocodeResult[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter(isGeocodeResult) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveRecentSearches = (results: GeocodeResult[]) => {
+  try {
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(results));
+  } catch {
+    // Same as above: recent searches are a convenience
+  }
+};
+
+// Most recent first, without duplicates
+export const addRecentSearch = (recent: GeocodeResult[], result: GeocodeResult): GeocodeResult[] =>
+  [result, ...recent.filter(r => r.id !== result.id && r.label !== result.label)].slice(0, MAX_RECENT_SEARCHES);
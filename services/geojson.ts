@@ -0,0 +1,229 @@
+import { GeoPoint, Layer, Shape, UnitSettings } from "../types";
+import { computeMeasuredValue } from "./geometry";
+import { generateId } from "./ids";
+import { resolveUnitSettings, shapeQuantityKind, toDisplayValue, unitLabel } from "./units";
+
+export class GeoJsonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoJsonError';
+  }
+}
+
+export interface GeoJsonImport {
+  layer: Layer;
+  shapes: Shape[];
+  skipped: number;
+}
+
+const REFERENCE_LAYER_COLOR = '#9ca3af';
+
+// The parsed JSON is narrowed member by member
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+// Projected coordinates (Lambert-93, UTM...) land far outside these bounds
+const toPoints = (coords: unknown[]): GeoPoint[] => {
+  const points = coords
+    .filter((c): c is unknown[] => isArray(c) && c.length >= 2)
+    .map(c => ({ lat: Number(c[1]), lng: Number(c[0]) }))
+    .filter(p => !isNaN(p.lat) && !isNaN(p.lng));
+  const outside = points.find(p => Math.abs(p.lat) > 90 || Math.abs(p.lng) > 180);
+  if (outside) {
+    throw new GeoJsonError(`Coordonnée hors limites (${outside.lng}, ${outside.lat}) : le fichier doit être en longitude / latitude WGS84. Reprojetez-le en EPSG:4326 avant l'import.`);
+  }
+  return points;
+};
+
+// Names of WGS84 in the legacy "crs" member; RFC 7946 files have no crs and are always WGS84
+const WGS84_CRS_NAMES = ['urn:ogc:def:crs:OGC:1.3:CRS84', 'urn:ogc:def:crs:OGC::CRS84', 'CRS84', 'EPSG:4326', 'urn:ogc:def:crs:EPSG::4326'];
+
+const checkCrs = (crs: unknown) => {
+  if (crs === undefined || crs === null) return;
+  const name = isObject(crs) && isObject(crs.properties) ? crs.properties.name : undefined;
+  if (typeof name === 'string' && WGS84_CRS_NAMES.includes(name.trim())) return;
+  const described = typeof name === 'string' ? `"${name}"` : 'non reconnu';
+  throw new GeoJsonError(`Système de coordonnées ${described} non pris en charge : le fichier doit être en WGS84. Reprojetez-le en EPSG:4326 avant l'import.`);
+};
+
+// Drops the closing coordinate of a GeoJSON ring: shapes store open rings
+const openRing = (points: GeoPoint[]): GeoPoint[] => {
+  if (points.length < 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first.lat === last.lat && first.lng === last.lng ? points.slice(0, -1) : points;
+};
+
+const closeRing = (points: GeoPoint[]): GeoPoint[] => {
+  if (points.length === 0) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first.lat === last.lat && first.lng === last.lng ? points : [...points, first];
+};
+
+const minPoints = (type: Shape['type']) => type === 'polygon' ? 3 : type === 'polyline' ? 2 : 1;
+
+const NAME_PROPERTIES = ['name', 'nom', 'Name', 'NAME', 'title'];
+// Written by exportLayersToGeoJson, recomputed rather than imported
+const EXPORT_PROPERTIES = ['layer', 'type', 'measuredValue', 'unit', 'stroke'];
+
+// Description, lot, tags and the other scalar properties (as attributes)
+const featureProperties = (properties: unknown): Pick<Shape, 'description' | 'lot' | 'tags' | 'attributes'> => {
+  if (!isObject(properties)) return {};
+  const { description, lot, tags, ...rest } = properties;
+  const attributes: Record<string, string> = {};
+  Object.entries(rest).forEach(([key, value]) => {
+    if (NAME_PROPERTIES.includes(key) || EXPORT_PROPERTIES.includes(key)) return;
+    if (['string', 'number', 'boolean'].includes(typeof value)) attributes[key] = String(value);
+  });
+  const tagList = isArray(tags) ? tags.filter((t): t is string => typeof t === 'string' && t.trim() !== '') : [];
+  return {
+    ...(typeof description === 'string' && description.trim() ? { description } : {}),
+    ...(typeof lot === 'string' && lot.trim() ? { lot } : {}),
+    ...(tagList.length > 0 ? { tags: tagList } : {}),
+    ...(Object.keys(attributes).length > 0 ? { attributes } : {})
+  };
+};
+
+const featureName = (properties: unknown): string => {
+  if (!isObject(properties)) return 'Sans nom';
+  const name = properties.name ?? properties.nom ?? properties.Name ?? properties.NAME ?? properties.title;
+  return name !== undefined && name !== null && String(name).trim() ? String(name) : 'Sans nom';
+};
+
+interface GeometryPart {
+  type: Shape['type'];
+  points: GeoPoint[];
+  holes?: GeoPoint[][];
+}
+
+// First ring is the outer boundary, the others are holes
+const polygonPart = (rings: unknown[]): GeometryPart => {
+  const [outer, ...inner] = rings;
+  const holes = inner
+    .filter(isArray)
+    .map(ring => openRing(toPoints(ring)))
+    .filter(ring => ring.length >= 3);
+  return { type: 'polygon', points: openRing(toPoints(isArray(outer) ? outer : [])), ...(holes.length > 0 ? { holes } : {}) };
+};
+
+const hasOuterRing = (rings: unknown): rings is unknown[] => isArray(rings) && isArray(rings[0]);
+
+// Multi* parts become separate shapes
+const geometryToParts = (geometry: unknown): GeometryPart[] => {
+  if (!isObject(geometry) || !isArray(geometry.coordinates)) return [];
+  const coordinates = geometry.coordinates;
+  switch (geometry.type) {
+    case 'Polygon':
+      return hasOuterRing(coordinates) ? [polygonPart(coordinates)] : [];
+    case 'MultiPolygon':
+      return coordinates.filter(hasOuterRing).map(polygonPart);
+    case 'Point':
+      return [{ type: 'point', points: toPoints([coordinates]) }];
+    case 'MultiPoint':
+      return coordinates.map(c => ({ type: 'point' as const, points: toPoints([c]) }));
+    case 'LineString':
+      return [{ type: 'polyline', points: toPoints(coordinates) }];
+    case 'MultiLineString':
+      return coordinates
+        .filter(isArray)
+        .map(line => ({ type: 'polyline' as const, points: toPoints(line) }));
+    default:
+      return [];
+  }
+};
+
+export const parseGeoJson = (text: string, fileName: string): GeoJsonImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new GeoJsonError("Le fichier n'est pas un JSON valide.");
+  }
+
+  let features: unknown[];
+  if (isObject(data) && data.type === 'FeatureCollection' && isArray(data.features)) features = data.features;
+  else if (isObject(data) && data.type === 'Feature') features = [data];
+  else throw new GeoJsonError("Le fichier n'est pas une FeatureCollection GeoJSON.");
+  checkCrs(data.crs);
+
+  const layerId = generateId();
+  const layer: Layer = {
+    id: layerId,
+    name: data.name ? String(data.name) : `Import ${fileName}`,
+    color: REFERENCE_LAYER_COLOR,
+    type: 'mixed',
+    category: 'kml',
+    isVisible: true,
+    opacity: 0.6
+  };
+
+  const shapes: Shape[] = [];
+  let skipped = 0;
+  features.forEach(feature => {
+    const { properties, geometry } = isObject(feature) ? feature : {};
+    const name = featureName(properties);
+    const shapeProperties = featureProperties(properties);
+    const parts = geometryToParts(geometry).filter(part => part.points.length >= minPoints(part.type));
+    if (parts.length === 0) {
+      skipped++;
+      return;
+    }
+    parts.forEach((part, index) => {
+      shapes.push({
+        id: generateId(),
+        name: parts.length > 1 ? `${name} (${index + 1})` : name,
+        type: part.type,
+        points: part.points,
+        ...(part.holes ? { holes: part.holes } : {}),
+        layerId,
+        measuredValue: computeMeasuredValue(part.type, part.points, part.holes),
+        ...shapeProperties
+      });
+    });
+  });
+
+  return { layer, shapes, skipped };
+};
+
+// --- Export ---
+
+const layerTypeLabel = (layer: Layer) => layer.category === 'kml' ? 'reference' : layer.type;
+
+const toGeometry = (shape: Shape) => {
+  if (shape.type === 'polygon') {
+    const rings = [shape.points, ...(shape.holes || []).filter(h => h.length >= 3)];
+    return { type: 'Polygon', coordinates: rings.map(ring => closeRing(ring).map(p => [p.lng, p.lat])) };
+  }
+  if (shape.type === 'point') return { type: 'Point', coordinates: [shape.points[0].lng, shape.points[0].lat] };
+  return { type: 'LineString', coordinates: shape.points.map(p => [p.lng, p.lat]) };
+};
+
+export const exportLayersToGeoJson = (layers: Layer[], shapes: Shape[], units?: UnitSettings): string => {
+  const features = layers.flatMap(layer => {
+    const layerUnits = resolveUnitSettings(units, layer);
+    return shapes
+      .filter(s => s.layerId === layer.id)
+      .filter(s => s.points.length >= minPoints(s.type))
+      .map(shape => ({
+        type: 'Feature',
+        properties: {
+          // Free attributes first so that they cannot override the fields below
+          ...shape.attributes,
+          ...(shape.description ? { description: shape.description } : {}),
+          ...(shape.lot ? { lot: shape.lot } : {}),
+          ...(shape.tags && shape.tags.length > 0 ? { tags: shape.tags } : {}),
+          name: shape.name,
+          layer: layer.name,
+          type: layerTypeLabel(layer),
+          // Quantity in the layer's display unit (points carry none)
+          measuredValue: shape.type === 'point' ? 0 : toDisplayValue(shape.measuredValue, shapeQuantityKind(shape), layerUnits),
+          unit: shape.type === 'point' ? '' : unitLabel(shapeQuantityKind(shape), layerUnits),
+          stroke: layer.color
+        },
+        geometry: toGeometry(shape)
+      }));
+  });
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
@@ -0,0 +1,205 @@
+import * as turf from '@turf/turf';
+import { GeoPoint, Shape } from "../types";
+
+const toClosedRing = (points: GeoPoint[]) => [...points, points[0]].map(p => [p.lng, p.lat]);
+
+// Turf polygon from an open outer ring and optional open inner rings
+export const toTurfPolygon = (points: GeoPoint[], holes: GeoPoint[][] = []) =>
+  turf.polygon([toClosedRing(points), ...holes.filter(h => h.length >= 3).map(toClosedRing)]);
+
+// Measured value of a shape: net area in m² for polygons (holes deducted), length in m for polylines.
+// Returns 0 when the geometry is incomplete or invalid.
+export const computeMeasuredValue = (type: Shape['type'], points: GeoPoint[], holes: GeoPoint[][] = []): number => {
+  let measuredValue = 0;
+  try {
+    if (type === 'polygon') {
+      if (points.length >= 3) {
+        measuredValue = turf.area(toTurfPolygon(points, holes));
+      }
+    } else if (type === 'polyline') {
+      if (points.length >= 2) {
+        const turfPoints = points.map(p => [p.lng, p.lat]);
+        const line = turf.lineString(turfPoints);
+        measuredValue = turf.length(line, { units: 'kilometers' }) * 1000;
+      }
+    }
+  } catch (e) {
+    console.error("Calculation error", e);
+  }
+  return isNaN(measuredValue) ? 0 : measuredValue;
+};
+
+// Length of the outer ring in m, holes excluded
+export const computePerimeter = (points: GeoPoint[]): number => {
+  if (points.length < 3) return 0;
+  try {
+    return turf.length(turf.lineString(toClosedRing(points)), { units: 'kilometers' }) * 1000;
+  } catch (e) {
+    console.error("Calculation error", e);
+    return 0;
+  }
+};
+
+// Centre of mass for polygons, mean of the vertices for lines, the point itself for points
+export const computeCentroid = (shape: Shape): GeoPoint | null => {
+  if (shape.points.length === 0) return null;
+  try {
+    const center = shape.type === 'polygon' && shape.points.length >= 3
+      ? turf.centerOfMass(toTurfPolygon(shape.points, shape.holes))
+      : turf.centroid(turf.multiPoint(shape.points.map(p => [p.lng, p.lat])));
+    const [lng, lat] = center.geometry.coordinates;
+    return { lat, lng };
+  } catch (e) {
+    console.error("Calculation error", e);
+    return null;
+  }
+};
+
+export const midpoint = (a: GeoPoint, b: GeoPoint): GeoPoint => ({
+  lat: (a.lat + b.lat) / 2,
+  lng: (a.lng + b.lng) / 2
+});
+
+// Returns an error message when the ring cannot be a hole of the polygon, null otherwise
+export const validateHole = (outer: GeoPoint[], holes: GeoPoint[][], hole: GeoPoint[]): string | null => {
+  if (hole.length < 3) return "Un contour intérieur nécessite au moins 3 points.";
+  try {
+    const holePolygon = toTurfPolygon(hole);
+    if (!turf.booleanContains(toTurfPolygon(outer), holePolygon)) {
+      return "Le trou doit être entièrement à l'intérieur de la surface.";
+    }
+    if (holes.some(existing => existing.length >= 3 && !turf.booleanDisjoint(toTurfPolygon(existing), holePolygon))) {
+      return "Le trou ne doit pas chevaucher un trou existant.";
+    }
+  } catch (e) {
+    console.error("Hole validation error", e);
+    return "Géométrie du trou invalide.";
+  }
+  return null;
+};
+
+// --- Local planar frame (metres east/north of an origin), accurate at drawing scales ---
+
+const EARTH_RADIUS_M = 6371008.8;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+export const toLocalMeters = (origin: GeoPoint, p: GeoPoint) => ({
+  x: toRad(p.lng - origin.lng) * EARTH_RADIUS_M * Math.cos(toRad(origin.lat)),
+  y: toRad(p.lat - origin.lat) * EARTH_RADIUS_M
+});
+
+export const fromLocalMeters = (origin: GeoPoint, v: { x: number; y: number }): GeoPoint => ({
+  lat: origin.lat + toDeg(v.y / EARTH_RADIUS_M),
+  lng: origin.lng + toDeg(v.x / (EARTH_RADIUS_M * Math.cos(toRad(origin.lat))))
+});
+
+// Bearing in degrees, clockwise from north, in [0, 360)
+export const segmentBearing = (a: GeoPoint, b: GeoPoint): number => {
+  const v = toLocalMeters(a, b);
+  return (toDeg(Math.atan2(v.x, v.y)) + 360) % 360;
+};
+
+export const segmentLength = (a: GeoPoint, b: GeoPoint): number => {
+  const v = toLocalMeters(a, b);
+  return Math.hypot(v.x, v.y);
+};
+
+export const offsetPoint = (origin: GeoPoint, distance: number, bearing: number): GeoPoint =>
+  fromLocalMeters(origin, { x: distance * Math.sin(toRad(bearing)), y: distance * Math.cos(toRad(bearing)) });
+
+// Next point constrained to multiples of `step` degrees relative to the previous segment
+// (relative to north for the first segment), keeping the cursor's projected distance
+export const constrainAngle = (points: GeoPoint[], cursor: GeoPoint, step = 45): GeoPoint => {
+  const last = points[points.length - 1];
+  const reference = points.length >= 2 ? segmentBearing(points[points.length - 2], last) : 0;
+  const raw = segmentBearing(last, cursor);
+  const bearing = reference + Math.round((raw - reference) / step) * step;
+  const distance = segmentLength(last, cursor) * Math.cos(toRad(raw - bearing));
+  return offsetPoint(last, Math.max(distance, 0), bearing);
+};
+
+// Point closing a ring so that its last drawn segment is parallel to the first one and the
+// closing segment is perpendicular to it (rectangle-like ends). Null when not applicable.
+export const closeParallelPoint = (points: GeoPoint[]): GeoPoint | null => {
+  if (points.length < 3) return null;
+  const origin = points[0];
+  const first = toLocalMeters(origin, points[1]);
+  const firstLength = Math.hypot(first.x, first.y);
+  if (firstLength === 0) return null;
+  const d = { x: first.x / firstLength, y: first.y / firstLength };
+  const last = toLocalMeters(origin, points[points.length - 1]);
+  // Foot of the perpendicular from the origin on the line through `last` along d
+  const t = -(last.x * d.x + last.y * d.y);
+  if (Math.abs(t) < 0.001) return null;
+  return fromLocalMeters(origin, { x: last.x + t * d.x, y: last.y + t * d.y });
+};
+
+// --- Generated outlines (stored as ordinary polygons) ---
+
+// Rotated rectangle on the base edge a-b, its width given by the distance of c to that edge
+export const rectanglePoints = (a: GeoPoint, b: GeoPoint, c: GeoPoint): GeoPoint[] | null => {
+  const base = toLocalMeters(a, b);
+  const length = Math.hypot(base.x, base.y);
+  if (length === 0) return null;
+  const normal = { x: -base.y / length, y: base.x / length };
+  const target = toLocalMeters(a, c);
+  const width = target.x * normal.x + target.y * normal.y;
+  if (Math.abs(width) < 0.01) return null;
+  const offset = { x: normal.x * width, y: normal.y * width };
+  return [a, b, fromLocalMeters(a, { x: base.x + offset.x, y: base.y + offset.y }), fromLocalMeters(a, offset)];
+};
+
+export const CIRCLE_SEGMENTS = 128;
+
+// The vertices sit slightly outside the circle so that the polygon has the circle's area (πr²)
+export const circlePoints = (center: GeoPoint, radius: number, segments = CIRCLE_SEGMENTS): GeoPoint[] | null => {
+  if (radius <= 0) return null;
+  const equalAreaRadius = radius * Math.sqrt((2 * Math.PI) / (segments * Math.sin((2 * Math.PI) / segments)));
+  return Array.from({ length: segments }, (_, i) => offsetPoint(center, equalAreaRadius, (i * 360) / segments));
+};
+
+// Outline of a centerline widened on both sides, with flat ends and mitred joints
+export const corridorPoints = (centerline: GeoPoint[], width: number): GeoPoint[] | null => {
+  if (width <= 0) return null;
+  const origin = centerline[0];
+  const local = centerline
+    .map(p => toLocalMeters(origin, p))
+    .filter((v, i, all) => i === 0 || v.x !== all[i - 1].x || v.y !== all[i - 1].y);
+  if (local.length < 2) return null;
+
+  const half = width / 2;
+  const normals = local.slice(1).map((v, i) => {
+    const dx = v.x - local[i].x;
+    const dy = v.y - local[i].y;
+    const length = Math.hypot(dx, dy);
+    return { x: -dy / length, y: dx / length };
+  });
+
+  const left: { x: number; y: number }[] = [];
+  const right: { x: number; y: number }[] = [];
+  local.forEach((v, i) => {
+    let offset: { x: number; y: number };
+    if (i === 0 || i === local.length - 1) {
+      const n = normals[Math.min(i, normals.length - 1)];
+      offset = { x: n.x * half, y: n.y * half };
+    } else {
+      const n1 = normals[i - 1];
+      const n2 = normals[i];
+      const sum = { x: n1.x + n2.x, y: n1.y + n2.y };
+      const sumLength = Math.hypot(sum.x, sum.y);
+      if (sumLength < 1e-9) {
+        offset = { x: n2.x * half, y: n2.y * half };
+      } else {
+        const miter = { x: sum.x / sumLength, y: sum.y / sumLength };
+        // Limit the miter on sharp turns
+        const scale = half / Math.max(miter.x * n2.x + miter.y * n2.y, 0.25);
+        offset = { x: miter.x * scale, y: miter.y * scale };
+      }
+    }
+    left.push({ x: v.x + offset.x, y: v.y + offset.y });
+    right.push({ x: v.x - offset.x, y: v.y - offset.y });
+  });
+
+  return [...left, ...right.reverse()].map(v => fromLocalMeters(origin, v));
+};
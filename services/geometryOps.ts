@@ -0,0 +1,162 @@
+import * as turf from '@turf/turf';
+import type { MultiPolygon, Polygon, Position } from 'geojson';
+import { GeoPoint, Shape } from "../types";
+import { fromLocalMeters, toLocalMeters, toTurfPolygon } from "./geometry";
+
+// Boolean operations, splitting and offsetting of shapes. Results are plain geometry parts:
+// the caller decides in which layer they land and recomputes their measured value.
+
+export class GeometryOperationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeometryOperationError';
+  }
+}
+
+export type GeometryOperation =
+  | { kind: 'union'; shapeId: string; otherId: string }
+  | { kind: 'difference'; shapeId: string; otherId: string } // otherId is cut out of shapeId
+  | { kind: 'split'; shapeId: string; line: GeoPoint[] }
+  | { kind: 'offset'; shapeId: string; distance: number }; // Metres, negative shrinks a polygon
+
+export interface GeometryPart {
+  type: 'polygon' | 'polyline';
+  points: GeoPoint[];
+  holes?: GeoPoint[][];
+}
+
+export interface GeometryOperationResult {
+  label: string; // For the undo history
+  parts: GeometryPart[];
+  removedIds: string[]; // Source shapes replaced by the parts
+}
+
+// Turf rings are closed, shapes store open rings
+const toOpenRing = (ring: Position[]): GeoPoint[] => {
+  const points = ring.map(([lng, lat]) => ({ lat, lng }));
+  const first = points[0];
+  const last = points[points.length - 1];
+  return points.length > 1 && first.lat === last.lat && first.lng === last.lng ? points.slice(0, -1) : points;
+};
+
+const polygonParts = (geometry: Polygon | MultiPolygon | null | undefined): GeometryPart[] => {
+  if (!geometry) return [];
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons
+    .map(rings => {
+      const holes = rings.slice(1).map(toOpenRing).filter(h => h.length >= 3);
+      return { type: 'polygon' as const, points: toOpenRing(rings[0]), ...(holes.length > 0 ? { holes } : {}) };
+    })
+    .filter(part => part.points.length >= 3);
+};
+
+const shapePolygon = (shape: Shape) => toTurfPolygon(shape.points, shape.holes);
+
+const requirePolygon = (shape: Shape | undefined): Shape => {
+  if (!shape || shape.type !== 'polygon' || shape.points.length < 3) {
+    throw new GeometryOperationError("Cette opération ne s'applique qu'aux surfaces.");
+  }
+  return shape;
+};
+
+export const unionShapes = (a: Shape, b: Shape): GeometryPart[] => {
+  const result = turf.union(turf.featureCollection([shapePolygon(requirePolygon(a)), shapePolygon(requirePolygon(b))]));
+  const parts = polygonParts(result?.geometry);
+  if (parts.length !== 1) throw new GeometryOperationError("Les surfaces doivent se toucher ou se chevaucher pour être fusionnées.");
+  return parts;
+};
+
+export const subtractShape = (base: Shape, cutter: Shape): GeometryPart[] => {
+  const basePolygon = shapePolygon(requirePolygon(base));
+  const cutterPolygon = shapePolygon(requirePolygon(cutter));
+  if (turf.booleanDisjoint(basePolygon, cutterPolygon)) throw new GeometryOperationError("Les surfaces ne se chevauchent pas.");
+  const parts = polygonParts(turf.difference(turf.featureCollection([basePolygon, cutterPolygon]))?.geometry);
+  if (parts.length === 0) throw new GeometryOperationError("La surface serait entièrement supprimée.");
+  return parts;
+};
+
+// Half-plane polygon on the left of the cut line, its ends extended far beyond the shape
+const cutSidePolygon = (shape: Shape, line: GeoPoint[]) => {
+  const origin = shape.points[0];
+  const local = line.map(p => toLocalMeters(origin, p));
+  const extent = shape.points.reduce((max, p) => {
+    const v = toLocalMeters(origin, p);
+    return Math.max(max, Math.hypot(v.x, v.y));
+  }, 0);
+  const far = extent * 10 + 100;
+  const direction = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    return { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+  };
+  const startDir = direction(local[1], local[0]);
+  const endDir = direction(local[local.length - 2], local[local.length - 1]);
+  const start = { x: local[0].x + startDir.x * far, y: local[0].y + startDir.y * far };
+  const end = { x: local[local.length - 1].x + endDir.x * far, y: local[local.length - 1].y + endDir.y * far };
+  const chord = direction(start, end);
+  const left = { x: -chord.y * far, y: chord.x * far };
+  const ring = [start, ...local, end, { x: end.x + left.x, y: end.y + left.y }, { x: start.x + left.x, y: start.y + left.y }];
+  return toTurfPolygon(ring.map(v => fromLocalMeters(origin, v)));
+};
+
+// A polygon is cut along the line (extended to its boundary), a polyline at its crossings with the line
+export const splitShape = (shape: Shape, line: GeoPoint[]): GeometryPart[] => {
+  const cleaned = line.filter((p, i) => i === 0 || p.lat !== line[i - 1].lat || p.lng !== line[i - 1].lng);
+  if (cleaned.length < 2) throw new GeometryOperationError("La ligne de coupe nécessite au moins 2 points.");
+  const splitter = turf.lineString(cleaned.map(p => [p.lng, p.lat]));
+
+  if (shape.type === 'polyline') {
+    const pieces = turf.lineSplit(turf.lineString(shape.points.map(p => [p.lng, p.lat])), splitter).features
+      .map(f => ({ type: 'polyline' as const, points: f.geometry.coordinates.map(([lng, lat]) => ({ lat, lng })) }))
+      .filter(part => part.points.length >= 2);
+    if (pieces.length < 2) throw new GeometryOperationError("La ligne de coupe ne croise pas la ligne sélectionnée.");
+    return pieces;
+  }
+
+  const polygon = shapePolygon(requirePolygon(shape));
+  const side = cutSidePolygon(shape, cleaned);
+  const pieces = [
+    ...polygonParts(turf.intersect(turf.featureCollection([polygon, side]))?.geometry),
+    ...polygonParts(turf.difference(turf.featureCollection([polygon, side]))?.geometry)
+  ];
+  if (pieces.length < 2) throw new GeometryOperationError("La ligne de coupe ne traverse pas la surface.");
+  return pieces;
+};
+
+export const offsetShape = (shape: Shape, distance: number): GeometryPart[] => {
+  if (distance === 0) throw new GeometryOperationError("La distance de décalage doit être non nulle.");
+  let feature;
+  if (shape.type === 'polygon') feature = shapePolygon(requirePolygon(shape));
+  else if (shape.type === 'polyline' && shape.points.length >= 2) {
+    if (distance < 0) throw new GeometryOperationError("Une ligne ne peut être décalée que vers l'extérieur (distance positive).");
+    feature = turf.lineString(shape.points.map(p => [p.lng, p.lat]));
+  } else {
+    throw new GeometryOperationError("Cette forme ne peut pas être décalée.");
+  }
+  // A single feature in gives a single feature out
+  const buffered = turf.buffer(feature, distance, { units: 'meters' });
+  const parts = polygonParts(buffered && 'geometry' in buffered ? buffered.geometry : null);
+  if (parts.length === 0) throw new GeometryOperationError("Le décalage vers l'intérieur fait disparaître la surface.");
+  return parts;
+};
+
+export const applyGeometryOperation = (operation: GeometryOperation, shapes: Shape[]): GeometryOperationResult => {
+  const shape = shapes.find(s => s.id === operation.shapeId);
+  if (!shape) throw new GeometryOperationError("Forme introuvable.");
+  try {
+    switch (operation.kind) {
+      case 'union':
+        return { label: 'Fusionner', parts: unionShapes(shape, requirePolygon(shapes.find(s => s.id === operation.otherId))), removedIds: [shape.id, operation.otherId] };
+      case 'difference':
+        return { label: 'Soustraire', parts: subtractShape(shape, requirePolygon(shapes.find(s => s.id === operation.otherId))), removedIds: [shape.id] };
+      case 'split':
+        return { label: 'Découper', parts: splitShape(shape, operation.line), removedIds: [shape.id] };
+      case 'offset':
+        // The original is kept: an offset usually measures a margin around it
+        return { label: 'Décaler', parts: offsetShape(shape, operation.distance), removedIds: [] };
+    }
+  } catch (e) {
+    if (e instanceof GeometryOperationError) throw e;
+    console.error("Geometry operation error", e);
+    throw new GeometryOperationError("Opération impossible sur cette géométrie.");
+  }
+};
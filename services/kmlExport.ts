@@ -0,0 +1,123 @@
+import { GeoPoint, Layer, Shape, UnitSettings } from "../types";
+import { resolveUnitSettings, shapeQuantityKind, toDisplayValue, unitLabel } from "./units";
+import { shapeAttributeEntries } from "./attributes";
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// #rrggbb + opacity -> KML aabbggrr
+export const hexToKmlColor = (hex: string, opacity: number): string => {
+  const clean = hex.replace('#', '').toLowerCase();
+  const rgb = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.padEnd(6, '0').substring(0, 6);
+  const alpha = Math.round(Math.min(Math.max(opacity, 0), 1) * 255).toString(16).padStart(2, '0');
+  return `${alpha}${rgb.substring(4, 6)}${rgb.substring(2, 4)}${rgb.substring(0, 2)}`;
+};
+
+const formatCoords = (points: GeoPoint[]) => points.map(p => `${p.lng},${p.lat},0`).join(' ');
+
+const renderRing = (points: GeoPoint[]) => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const isClosed = first.lat === last.lat && first.lng === last.lng;
+  return `<LinearRing><coordinates>${formatCoords(isClosed ? points : [...points, first])}</coordinates></LinearRing>`;
+};
+
+const layerTypeLabel = (layer: Layer) => {
+  if (layer.category === 'kml') return 'reference';
+  return layer.type;
+};
+
+// Quantity in the layer's display unit (points carry none)
+const quantityFor = (shape: Shape, units: UnitSettings) => {
+  if (shape.type === 'point') return { value: '0', unit: '' };
+  const kind = shapeQuantityKind(shape);
+  return { value: toDisplayValue(shape.measuredValue, kind, units).toFixed(units.decimals), unit: unitLabel(kind, units) };
+};
+
+const renderData = (name: string, value: string | number) =>
+  `<Data name="${escapeXml(name)}"><value>${escapeXml(String(value))}</value></Data>`;
+
+const renderGeometry = (shape: Shape): string | null => {
+  if (shape.type === 'point') {
+    return shape.points.length > 0 ? `<Point><coordinates>${formatCoords(shape.points.slice(0, 1))}</coordinates></Point>` : null;
+  }
+  if (shape.type === 'polygon') {
+    if (shape.points.length < 3) return null;
+    const inner = (shape.holes || [])
+      .filter(h => h.length >= 3)
+      .map(h => `<innerBoundaryIs>${renderRing(h)}</innerBoundaryIs>`)
+      .join('');
+    return `<Polygon><outerBoundaryIs>${renderRing(shape.points)}</outerBoundaryIs>${inner}</Polygon>`;
+  }
+  if (shape.points.length < 2) return null;
+  return `<LineString><tessellate>1</tessellate><coordinates>${formatCoords(shape.points)}</coordinates></LineString>`;
+};
+
+const RESERVED_DATA_NAMES = ['layer', 'layerType', 'measuredValue', 'unit'];
+
+const renderPlacemark = (shape: Shape, layer: Layer, styleId: string, units: UnitSettings): string | null => {
+  const geometry = renderGeometry(shape);
+  if (!geometry) return null;
+  const quantity = quantityFor(shape, units);
+  // Description goes to its own element, attributes may not override the quantity fields
+  const attributes = shapeAttributeEntries(shape).filter(([name]) => name !== 'description' && !RESERVED_DATA_NAMES.includes(name));
+  return [
+    '      <Placemark>',
+    `        <name>${escapeXml(shape.name)}</name>`,
+    ...(shape.description ? [`        <description>${escapeXml(shape.description)}</description>`] : []),
+    `        <styleUrl>#${styleId}</styleUrl>`,
+    '        <ExtendedData>',
+    `          ${renderData('layer', layer.name)}`,
+    `          ${renderData('layerType', layerTypeLabel(layer))}`,
+    `          ${renderData('measuredValue', quantity.value)}`,
+    `          ${renderData('unit', quantity.unit)}`,
+    ...attributes.map(([name, value]) => `          ${renderData(name, value)}`),
+    '        </ExtendedData>',
+    `        ${geometry}`,
+    '      </Placemark>'
+  ].join('\n');
+};
+
+const renderStyle = (layer: Layer, styleId: string) => [
+  `    <Style id="${styleId}">`,
+  `      <LineStyle><color>${hexToKmlColor(layer.color, 1)}</color><width>${layer.type === 'length' ? 3 : 2}</width></LineStyle>`,
+  `      <PolyStyle><color>${hexToKmlColor(layer.color, layer.opacity)}</color></PolyStyle>`,
+  '    </Style>'
+].join('\n');
+
+// One Folder per layer, one Placemark per shape, quantities in ExtendedData
+export const exportLayersToKml = (layers: Layer[], shapes: Shape[], documentName: string, units?: UnitSettings): string => {
+  const styles: string[] = [];
+  const folders: string[] = [];
+
+  layers.forEach((layer, index) => {
+    const styleId = `layer-style-${index + 1}`;
+    styles.push(renderStyle(layer, styleId));
+    const placemarks = shapes
+      .filter(s => s.layerId === layer.id)
+      .map(s => renderPlacemark(s, layer, styleId, resolveUnitSettings(units, layer)))
+      .filter((p): p is string => p !== null);
+    folders.push([
+      '    <Folder>',
+      `      <name>${escapeXml(layer.name)}</name>`,
+      ...placemarks,
+      '    </Folder>'
+    ].join('\n'));
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...styles,
+    ...folders,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
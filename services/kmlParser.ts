@@ -0,0 +1,317 @@
+import { GeoPoint, Layer, LayerGroup, Shape } from "../types";
+import { computeMeasuredValue } from "./geometry";
+import { generateId } from "./ids";
+import { readZip } from "./zip";
+
+// KML / KMZ import: nested folders (as layer groups), MultiGeometry, polygon boundaries, points, Style/StyleMap.
+
+export class KmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KmlError';
+  }
+}
+
+export interface ParsedGeometry {
+  kind: Shape['type'];
+  outer: GeoPoint[];
+  inner: GeoPoint[][];
+}
+
+export interface SkippedItem {
+  name: string;
+  reason: string;
+}
+
+export interface KmlImportSummary {
+  folders: number;
+  placemarks: number;
+  shapes: number;
+  points: number;
+  skipped: SkippedItem[];
+}
+
+export interface KmlImportResult {
+  layers: Layer[];
+  groups: LayerGroup[];
+  shapes: Shape[];
+  summary: KmlImportSummary;
+}
+
+const FOLDER_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#eab308', '#a855f7', '#ec4899', '#f97316', '#06b6d4'];
+const DEFAULT_COLOR = '#9ca3af';
+
+export const kmlColorToHex = (kmlColor: string | null | undefined): string | null => {
+  if (!kmlColor) return null;
+  const clean = kmlColor.trim().replace('#', '').toLowerCase();
+  if (clean.length === 8) return `#${clean.substring(6, 8)}${clean.substring(4, 6)}${clean.substring(2, 4)}`;
+  if (clean.length === 6) return `#${clean.substring(4, 6)}${clean.substring(2, 4)}${clean.substring(0, 2)}`;
+  return null;
+};
+
+// --- DOM helpers (namespace agnostic) ---
+
+const childElements = (parent: Element, name?: string): Element[] =>
+  Array.from(parent.children).filter(el => !name || el.localName === name);
+
+const firstChild = (parent: Element | undefined, name: string): Element | undefined =>
+  parent ? childElements(parent, name)[0] : undefined;
+
+const childText = (parent: Element, name: string): string | undefined =>
+  firstChild(parent, name)?.textContent?.trim() || undefined;
+
+const descendants = (root: Document | Element, name: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', name));
+
+const parseCoords = (coordStr: string | null | undefined): GeoPoint[] => {
+  if (!coordStr) return [];
+  return coordStr.trim().split(/\s+/).map(tuple => {
+    const parts = tuple.split(',');
+    return parts.length >= 2 ? { lat: parseFloat(parts[1]), lng: parseFloat(parts[0]) } : null;
+  }).filter((p): p is GeoPoint => p !== null && !isNaN(p.lat) && !isNaN(p.lng));
+};
+
+// Shapes store open rings: drop the closing coordinate
+const openRing = (points: GeoPoint[]): GeoPoint[] => {
+  if (points.length < 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first.lat === last.lat && first.lng === last.lng ? points.slice(0, -1) : points;
+};
+
+const ringCoords = (boundary: Element | undefined): GeoPoint[] =>
+  openRing(parseCoords(firstChild(firstChild(boundary, 'LinearRing'), 'coordinates')?.textContent));
+
+// --- Styles ---
+
+const styleColor = (style: Element): string | null => {
+  const poly = firstChild(firstChild(style, 'PolyStyle'), 'color')?.textContent;
+  const line = firstChild(firstChild(style, 'LineStyle'), 'color')?.textContent;
+  const icon = firstChild(firstChild(style, 'IconStyle'), 'color')?.textContent;
+  return kmlColorToHex(poly) || kmlColorToHex(line) || kmlColorToHex(icon);
+};
+
+const buildStyleResolver = (doc: Document) => {
+  const styles: Record<string, string | null> = {};
+  descendants(doc, 'Style').forEach(style => {
+    const id = style.getAttribute('id');
+    if (id) styles[id] = styleColor(style);
+  });
+  // StyleMap: use the "normal" pair
+  const styleMaps: Record<string, string> = {};
+  descendants(doc, 'StyleMap').forEach(map => {
+    const id = map.getAttribute('id');
+    if (!id) return;
+    const normal = childElements(map, 'Pair').find(pair => childText(pair, 'key') === 'normal');
+    const url = normal && childText(normal, 'styleUrl');
+    if (url) styleMaps[id] = url;
+    else {
+      const inline = normal && firstChild(normal, 'Style');
+      if (inline) styles[id] = styleColor(inline);
+    }
+  });
+
+  const resolveUrl = (url: string, depth = 0): string | null => {
+    const id = url.split('#').pop() || '';
+    if (styles[id] !== undefined) return styles[id];
+    if (styleMaps[id] && depth < 5) return resolveUrl(styleMaps[id], depth + 1);
+    return null;
+  };
+
+  return (placemark: Element): string | null => {
+    const inline = firstChild(placemark, 'Style');
+    const inlineColor = inline ? styleColor(inline) : null;
+    if (inlineColor) return inlineColor;
+    const url = childText(placemark, 'styleUrl');
+    return url ? resolveUrl(url) : null;
+  };
+};
+
+// --- Geometry ---
+
+const GEOMETRY_TAGS = ['Polygon', 'LineString', 'LinearRing', 'Point', 'MultiGeometry', 'Model', 'Track', 'MultiTrack'];
+
+const parseGeometry = (el: Element, skippedReasons: string[]): ParsedGeometry[] => {
+  switch (el.localName) {
+    case 'Polygon': {
+      const outer = ringCoords(firstChild(el, 'outerBoundaryIs'));
+      const inner = childElements(el, 'innerBoundaryIs').map(ringCoords).filter(ring => ring.length >= 3);
+      if (outer.length < 3) {
+        skippedReasons.push('polygone de moins de 3 sommets');
+        return [];
+      }
+      return [{ kind: 'polygon', outer, inner }];
+    }
+    case 'LinearRing': {
+      const outer = openRing(parseCoords(firstChild(el, 'coordinates')?.textContent));
+      if (outer.length < 3) {
+        skippedReasons.push('anneau de moins de 3 sommets');
+        return [];
+      }
+      return [{ kind: 'polygon', outer, inner: [] }];
+    }
+    case 'LineString': {
+      const outer = parseCoords(firstChild(el, 'coordinates')?.textContent);
+      if (outer.length < 2) {
+        skippedReasons.push('ligne de moins de 2 points');
+        return [];
+      }
+      return [{ kind: 'polyline', outer, inner: [] }];
+    }
+    case 'Point': {
+      const outer = parseCoords(firstChild(el, 'coordinates')?.textContent).slice(0, 1);
+      if (outer.length === 0) {
+        skippedReasons.push('point sans coordonnées');
+        return [];
+      }
+      return [{ kind: 'point', outer, inner: [] }];
+    }
+    case 'MultiGeometry':
+      return childElements(el).filter(child => GEOMETRY_TAGS.includes(child.localName)).flatMap(child => parseGeometry(child, skippedReasons));
+    default:
+      skippedReasons.push(`géométrie ${el.localName} non prise en charge`);
+      return [];
+  }
+};
+
+// --- Document walk ---
+
+export const parseKml = (text: string, fileName: string): KmlImportResult => {
+  const doc = new DOMParser().parseFromString(text, 'text/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new KmlError("Le fichier n'est pas un XML valide.");
+  }
+  const root = doc.documentElement;
+  if (!root || root.localName !== 'kml') {
+    throw new KmlError("Le fichier n'est pas un document KML.");
+  }
+
+  const resolveStyle = buildStyleResolver(doc);
+  const layers: Layer[] = [];
+  const groups: LayerGroup[] = [];
+  const shapes: Shape[] = [];
+  const summary: KmlImportSummary = { folders: 0, placemarks: 0, shapes: 0, points: 0, skipped: [] };
+
+  const processPlacemark = (placemark: Element, layerId: string): string | null => {
+    summary.placemarks++;
+    const name = childText(placemark, 'name') || 'Sans nom';
+    const reasons: string[] = [];
+    const geometryEls = childElements(placemark).filter(child => GEOMETRY_TAGS.includes(child.localName));
+    if (geometryEls.length === 0) reasons.push('aucune géométrie');
+    const geometries = geometryEls.flatMap(el => parseGeometry(el, reasons));
+
+    geometries.forEach((geometry, index) => {
+      const shape: Shape = {
+        id: generateId(),
+        name: geometries.length > 1 ? `${name} (${index + 1})` : name,
+        type: geometry.kind,
+        points: geometry.outer,
+        ...(geometry.inner.length > 0 ? { holes: geometry.inner } : {}),
+        layerId,
+        measuredValue: computeMeasuredValue(geometry.kind, geometry.outer, geometry.inner)
+      };
+      if (geometry.kind === 'point') summary.points++;
+      else summary.shapes++;
+      shapes.push(shape);
+    });
+    reasons.forEach(reason => summary.skipped.push({ name, reason }));
+    return geometries.length > 0 ? resolveStyle(placemark) : null;
+  };
+
+  // Each folder becomes a group, nested like in the file; the placemarks of a container
+  // become a layer inside its group. Top-level placemarks land in an ungrouped layer.
+  const walk = (container: Element, group: LayerGroup | undefined) => {
+    const placemarks = childElements(container, 'Placemark');
+    if (placemarks.length > 0) {
+      const layerId = generateId();
+      const index = layers.length;
+      const layer: Layer = {
+        id: layerId,
+        name: group ? group.name : `Import ${fileName}`,
+        color: FOLDER_COLORS[index % FOLDER_COLORS.length],
+        type: 'mixed',
+        category: 'kml',
+        isVisible: true,
+        opacity: 0.6,
+        ...(group ? { groupId: group.id } : {})
+      };
+      const before = shapes.length;
+      let layerColor: string | null = null;
+      placemarks.forEach(pm => {
+        const color = processPlacemark(pm, layerId);
+        if (!layerColor && color) layerColor = color;
+      });
+      if (layerColor) layer.color = layerColor;
+      else if (!group) layer.color = DEFAULT_COLOR;
+      if (shapes.length > before) layers.push(layer);
+    }
+
+    const openGroup = (name: string): LayerGroup => {
+      const child: LayerGroup = { id: generateId(), name, isVisible: true, ...(group ? { parentId: group.id } : {}) };
+      groups.push(child);
+      return child;
+    };
+    childElements(container).forEach(child => {
+      if (child.localName === 'Folder') {
+        summary.folders++;
+        walk(child, openGroup(childText(child, 'name') || `Dossier ${summary.folders}`));
+      } else if (child.localName === 'Document') {
+        // Nested documents (network link exports): a group when they are named
+        const name = childText(child, 'name');
+        walk(child, name ? openGroup(name) : group);
+      }
+    });
+  };
+
+  const topDocument = firstChild(root, 'Document');
+  if (topDocument) {
+    walk(topDocument, undefined);
+  } else {
+    walk(root, undefined);
+  }
+
+  // Folders without any imported shape, even in their sub-folders, are left out
+  const usedGroupIds = new Set<string>();
+  layers.forEach(layer => {
+    let group = groups.find(g => g.id === layer.groupId);
+    while (group && !usedGroupIds.has(group.id)) {
+      usedGroupIds.add(group.id);
+      const parentId = group.parentId;
+      group = groups.find(g => g.id === parentId);
+    }
+  });
+
+  return { layers, groups: groups.filter(g => usedGroupIds.has(g.id)), shapes, summary };
+};
+
+// Reads a .kml or .kmz file and returns the KML text
+export const readKmlFile = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer);
+  const isZip = bytes.length > 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+  if (!isZip) return new TextDecoder().decode(bytes);
+
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(buffer);
+  } catch (err) {
+    throw new KmlError(`Archive KMZ illisible : ${(err as Error).message}`);
+  }
+  const kmlNames = Array.from(files.keys()).filter(name => name.toLowerCase().endsWith('.kml'));
+  // By convention the main document is doc.kml at the root
+  const main = kmlNames.find(name => name.toLowerCase() === 'doc.kml') || kmlNames.sort((a, b) => a.split('/').length - b.split('/').length)[0];
+  if (!main) throw new KmlError("L'archive KMZ ne contient aucun fichier KML.");
+  return new TextDecoder().decode(files.get(main));
+};
+
+export const formatImportSummary = (summary: KmlImportSummary): string => {
+  const lines = [
+    `${summary.shapes} forme(s) et ${summary.points} point(s) importés depuis ${summary.placemarks} placemark(s)${summary.folders > 0 ? `, ${summary.folders} dossier(s)` : ''}.`
+  ];
+  if (summary.skipped.length > 0) {
+    lines.push('', `Éléments ignorés (${summary.skipped.length}) :`);
+    summary.skipped.slice(0, 15).forEach(item => lines.push(`- ${item.name} : ${item.reason}`));
+    if (summary.skipped.length > 15) lines.push(`... et ${summary.skipped.length - 15} autre(s).`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,110 @@
+import { Layer, LayerGroup, UnitSettings } from "../types";
+import { layerQuantityKind, resolveUnitSettings, unitLabel } from "./units";
+
+// Layer groups (lots, or the folders of an imported KML). The order of the layers array is
+// the list order; groups may be nested. Map draw order follows the list order, reference
+// layers included. Subtotals only count measurement layers.
+
+// Where a dragged layer lands: next to another layer, or at the end of a group (null = top level)
+export type LayerDropTarget =
+  | { layerId: string; position: 'before' | 'after' }
+  | { groupId: string | null };
+
+export interface GroupSubtotal {
+  unit: string;
+  value: number;
+  decimals: number;
+}
+
+export const childGroups = (groups: LayerGroup[], parentId: string | null) =>
+  groups.filter(g => (g.parentId ?? null) === parentId);
+
+// The group itself and every group nested in it
+export const descendantGroupIds = (groupId: string, groups: LayerGroup[]): Set<string> => {
+  const ids = new Set([groupId]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const g of groups) {
+      if (g.parentId && ids.has(g.parentId) && !ids.has(g.id)) {
+        ids.add(g.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+};
+
+// A layer is drawn only if it and all its enclosing groups are visible
+export const isLayerDisplayed = (layer: Layer, groups: LayerGroup[]): boolean => {
+  if (!layer.isVisible) return false;
+  let group = groups.find(g => g.id === layer.groupId);
+  while (group) {
+    if (!group.isVisible) return false;
+    const parentId = group.parentId;
+    group = groups.find(g => g.id === parentId);
+  }
+  return true;
+};
+
+// List order, depth first: each group's sub-groups then its own layers, ungrouped layers last
+export const orderLayers = (layers: Layer[], groups: LayerGroup[]): Layer[] => {
+  const groupIds = new Set(groups.map(g => g.id));
+  const parentOf = (layer: Layer) => layer.groupId && groupIds.has(layer.groupId) ? layer.groupId : null;
+  const visit = (parentId: string | null): Layer[] => [
+    ...childGroups(groups, parentId).flatMap(g => visit(g.id)),
+    ...layers.filter(l => parentOf(l) === parentId)
+  ];
+  return visit(null);
+};
+
+export const moveLayer = (layers: Layer[], id: string, target: LayerDropTarget): Layer[] => {
+  const layer = layers.find(l => l.id === id);
+  if (!layer) return layers;
+  const rest = layers.filter(l => l.id !== id);
+  if ('layerId' in target) {
+    const anchor = rest.findIndex(l => l.id === target.layerId);
+    if (anchor < 0) return layers;
+    rest.splice(target.position === 'before' ? anchor : anchor + 1, 0, { ...layer, groupId: rest[anchor].groupId });
+    return rest;
+  }
+  return [...rest, { ...layer, groupId: target.groupId ?? undefined }];
+};
+
+// Null when the group would end up inside itself
+export const nestGroup = (groups: LayerGroup[], id: string, parentId: string | null): LayerGroup[] | null => {
+  const group = groups.find(g => g.id === id);
+  if (!group) return groups;
+  if (parentId && descendantGroupIds(id, groups).has(parentId)) return null;
+  return [...groups.filter(g => g.id !== id), { ...group, parentId: parentId ?? undefined }];
+};
+
+// The group's layers and sub-groups move up to its parent
+export const removeGroup = (layers: Layer[], groups: LayerGroup[], id: string): { layers: Layer[]; groups: LayerGroup[] } => {
+  const parentId = groups.find(g => g.id === id)?.parentId;
+  return {
+    layers: layers.map(l => l.groupId === id ? { ...l, groupId: parentId } : l),
+    groups: groups.filter(g => g.id !== id).map(g => g.parentId === id ? { ...g, parentId } : g)
+  };
+};
+
+// Totals of all the measurement layers in the group and its sub-groups, one line per display unit
+export const groupSubtotals = (groupId: string, layers: Layer[], groups: LayerGroup[], layerTotals: Record<string, number>, units: UnitSettings): GroupSubtotal[] => {
+  const groupIds = descendantGroupIds(groupId, groups);
+  const subtotals: GroupSubtotal[] = [];
+  layers
+    .filter(l => l.category === 'measurement' && l.groupId && groupIds.has(l.groupId))
+    .forEach(layer => {
+      const layerUnits = resolveUnitSettings(units, layer);
+      const unit = unitLabel(layerQuantityKind(layer), layerUnits);
+      const line = subtotals.find(s => s.unit === unit);
+      const value = layerTotals[layer.id] || 0;
+      if (line) {
+        line.value += value;
+        line.decimals = Math.max(line.decimals, layerUnits.decimals);
+      } else {
+        subtotals.push({ unit, value, decimals: layerUnits.decimals });
+      }
+    });
+  return subtotals;
+};
@@ -0,0 +1,179 @@
+import { GeoPoint, Layer, Shape } from "../types";
+import { TileSource } from "./baseLayers";
+
+// Off-screen rendering of a layer's extent (tiles + shapes + labels) for reports
+
+export interface MapSnapshot {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+interface SnapshotOptions {
+  width?: number;
+  height?: number;
+  tiles?: TileSource[]; // Base map first, then the overlays
+  formatLabel?: (shape: Shape) => string;
+}
+
+const TILE_SIZE = 256;
+const TILE_TIMEOUT_MS = 5000;
+const MAX_ZOOM = 20;
+const PADDING_RATIO = 0.85;
+
+// Web Mercator projection to world pixels at a given zoom
+const project = (p: GeoPoint, zoom: number) => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sinLat = Math.sin((Math.max(Math.min(p.lat, 85.05), -85.05) * Math.PI) / 180);
+  return {
+    x: ((p.lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+  };
+};
+
+const loadTile = (url: string): Promise<HTMLImageElement | null> => new Promise(resolve => {
+  const img = new Image();
+  // Tiles without CORS headers fail to load instead of tainting the canvas
+  img.crossOrigin = 'anonymous';
+  const timer = window.setTimeout(() => resolve(null), TILE_TIMEOUT_MS);
+  // Local tiles (MBTiles) come as object URLs, freed once decoded
+  const release = () => { if (url.startsWith('blob:')) URL.revokeObjectURL(url); };
+  img.onload = () => { window.clearTimeout(timer); release(); resolve(img); };
+  img.onerror = () => { window.clearTimeout(timer); release(); resolve(null); };
+  img.src = url;
+});
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean;
+  const r = parseInt(full.substring(0, 2), 16) || 0;
+  const g = parseInt(full.substring(2, 4), 16) || 0;
+  const b = parseInt(full.substring(4, 6), 16) || 0;
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+const labelAnchor = (shape: Shape): GeoPoint => {
+  if (shape.type !== 'polygon') return shape.points[Math.floor((shape.points.length - 1) / 2)];
+  const sum = shape.points.reduce((acc, p) => ({ lat: acc.lat + p.lat, lng: acc.lng + p.lng }), { lat: 0, lng: 0 });
+  return { lat: sum.lat / shape.points.length, lng: sum.lng / shape.points.length };
+};
+
+export const renderLayerSnapshot = async (layer: Layer, shapes: Shape[], options: SnapshotOptions = {}): Promise<MapSnapshot | null> => {
+  const width = options.width || 1000;
+  const height = options.height || 600;
+  const points = shapes.flatMap(s => s.points);
+  if (points.length === 0) return null;
+
+  const bounds = {
+    minLat: Math.min(...points.map(p => p.lat)),
+    maxLat: Math.max(...points.map(p => p.lat)),
+    minLng: Math.min(...points.map(p => p.lng)),
+    maxLng: Math.max(...points.map(p => p.lng))
+  };
+
+  // Highest zoom at which the extent fits the image
+  let zoom = MAX_ZOOM;
+  for (; zoom > 1; zoom--) {
+    const nw = project({ lat: bounds.maxLat, lng: bounds.minLng }, zoom);
+    const se = project({ lat: bounds.minLat, lng: bounds.maxLng }, zoom);
+    if (se.x - nw.x <= width * PADDING_RATIO && se.y - nw.y <= height * PADDING_RATIO) break;
+  }
+
+  const center = project({ lat: (bounds.minLat + bounds.maxLat) / 2, lng: (bounds.minLng + bounds.maxLng) / 2 }, zoom);
+  const left = center.x - width / 2;
+  const top = center.y - height / 2;
+  const toCanvas = (p: GeoPoint) => {
+    const world = project(p, zoom);
+    return { x: world.x - left, y: world.y - top };
+  };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.fillStyle = '#e5e7eb';
+  ctx.fillRect(0, 0, width, height);
+
+  // Background tiles, one source after the other so that overlays end up on top
+  for (const tiles of options.tiles || []) {
+    const tileZoom = Math.min(zoom, tiles.maxNativeZoom);
+    const factor = Math.pow(2, zoom - tileZoom);
+    const size = TILE_SIZE * factor;
+    const maxIndex = Math.pow(2, tileZoom);
+    const jobs: Promise<void>[] = [];
+    for (let tx = Math.floor(left / size); tx <= Math.floor((left + width) / size); tx++) {
+      for (let ty = Math.floor(top / size); ty <= Math.floor((top + height) / size); ty++) {
+        if (ty < 0 || ty >= maxIndex) continue;
+        const wrappedX = ((tx % maxIndex) + maxIndex) % maxIndex;
+        jobs.push(tiles.getUrl(wrappedX, ty, tileZoom).then(url => url ? loadTile(url) : null).then(img => {
+          if (img) ctx.drawImage(img, tx * size - left, ty * size - top, size, size);
+        }));
+      }
+    }
+    await Promise.all(jobs);
+  }
+
+  // Shapes
+  ctx.lineJoin = 'round';
+  shapes.forEach(shape => {
+    if (shape.points.length === 0) return;
+    ctx.beginPath();
+    if (shape.type === 'point') {
+      const { x, y } = toCanvas(shape.points[0]);
+      ctx.arc(x, y, 6, 0, Math.PI * 2);
+      ctx.fillStyle = layer.color;
+      ctx.fill();
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      return;
+    }
+    const traceRing = (ring: GeoPoint[]) => {
+      ring.forEach((p, i) => {
+        const { x, y } = toCanvas(p);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+    };
+    traceRing(shape.points);
+    if (shape.type === 'polygon') {
+      ctx.closePath();
+      (shape.holes || []).forEach(hole => {
+        traceRing(hole);
+        ctx.closePath();
+      });
+      ctx.fillStyle = hexToRgba(layer.color, Math.max(layer.opacity, 0.2));
+      // Even-odd leaves the holes unfilled whatever their winding
+      ctx.fill('evenodd');
+    }
+    ctx.strokeStyle = layer.color;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+  });
+
+  // Labels (white halo for readability over imagery)
+  ctx.font = 'bold 14px Helvetica, Arial, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  shapes.forEach(shape => {
+    if (shape.points.length === 0) return;
+    const anchor = toCanvas(labelAnchor(shape));
+    // Point labels sit above the marker
+    const x = anchor.x;
+    const y = shape.type === 'point' ? anchor.y - 14 : anchor.y;
+    const label = options.formatLabel ? options.formatLabel(shape) : shape.name;
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.strokeText(label, x, y);
+    ctx.fillStyle = '#111827';
+    ctx.fillText(label, x, y);
+  });
+
+  try {
+    return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), width, height };
+  } catch (err) {
+    console.warn("Capture de carte impossible:", err);
+    return null;
+  }
+};
@@ -0,0 +1,524 @@
+import { GeoPoint } from "../types";
+
+// Offline tiles from an MBTiles file, which is a SQLite database. Only what tile lookup needs
+// is read: the page format, table and index B-trees, records and overflow pages (no SQL).
+// Pages are read from the file on demand, so that large files neither fill the memory nor
+// block the page while they are opened.
+
+export interface MbTilesArchive {
+  name: string;
+  format: string; // png, jpg or webp
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+  bounds?: GeoPoint[]; // South-west and north-east corners, from the metadata
+  getTile: (z: number, x: number, y: number) => Promise<Uint8Array | null>; // XYZ row order
+}
+
+export class MbTilesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MbTilesError';
+  }
+}
+
+const TILE_MIME_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+type SqlValue = number | string | Uint8Array | null;
+
+// The file is read by blocks, so that neighbouring pages (overflow chains) come in one read.
+// A block is the largest SQLite page size: a page never spans two blocks.
+const BLOCK_SIZE = 65536;
+const CACHED_BLOCKS = 64;
+// Deeper B-trees mean a corrupted file looping on itself
+const MAX_TREE_DEPTH = 40;
+
+interface Database {
+  file: Blob;
+  pageSize: number;
+  usableSize: number; // Page size minus the space reserved by extensions
+  pageCount: number;
+  blocks: Map<number, Promise<Uint8Array>>; // Recently read blocks, least recent first
+}
+
+interface Page {
+  bytes: Uint8Array;
+  view: DataView;
+}
+
+// Cell holding a record: the start of the payload, the rest being in overflow pages
+interface Cell {
+  payloadSize: number;
+  local: Uint8Array;
+  overflowPage: number;
+}
+
+// Interior pages point to child pages, leaf pages hold the rows (table) or the keys (index)
+interface BTreePage {
+  page: Page;
+  isTable: boolean;
+  isLeaf: boolean;
+  cells: number[]; // Cell offsets in the page
+  rightChild: number;
+}
+
+const corrupted = () => new MbTilesError("Fichier MBTiles corrompu ou tronqué.");
+
+// Big-endian, 7 bits per byte, the 9th byte contributing all 8 bits
+const readVarint = (bytes: Uint8Array, offset: number): [value: number, length: number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+const readBlock = (db: Database, index: number): Promise<Uint8Array> => {
+  const cached = db.blocks.get(index);
+  if (cached) {
+    db.blocks.delete(index);
+    db.blocks.set(index, cached);
+    return cached;
+  }
+  const block = db.file.slice(index * BLOCK_SIZE, (index + 1) * BLOCK_SIZE).arrayBuffer().then(buffer => new Uint8Array(buffer));
+  db.blocks.set(index, block);
+  if (db.blocks.size > CACHED_BLOCKS) db.blocks.delete(db.blocks.keys().next().value!);
+  // A failed read is tried again next time
+  block.catch(() => db.blocks.delete(index));
+  return block;
+};
+
+const readPage = async (db: Database, page: number): Promise<Page> => {
+  if (!Number.isInteger(page) || page < 1 || page > db.pageCount) throw corrupted();
+  const start = (page - 1) * db.pageSize;
+  const block = await readBlock(db, Math.floor(start / BLOCK_SIZE));
+  const offset = start % BLOCK_SIZE;
+  if (offset + db.pageSize > block.length) throw corrupted();
+  const bytes = block.subarray(offset, offset + db.pageSize);
+  return { bytes, view: new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength) };
+};
+
+const readBTreePage = async (db: Database, pageNumber: number): Promise<BTreePage> => {
+  const page = await readPage(db, pageNumber);
+  const header = pageNumber === 1 ? 100 : 0; // Page 1 begins with the file header
+  const type = page.bytes[header];
+  if (![0x02, 0x05, 0x0a, 0x0d].includes(type)) throw new MbTilesError("Structure de table SQLite non prise en charge.");
+  const isLeaf = type === 0x0a || type === 0x0d;
+  const cellCount = page.view.getUint16(header + 3);
+  const pointers = header + (isLeaf ? 8 : 12);
+  if (pointers + cellCount * 2 > page.bytes.length) throw corrupted();
+  return {
+    page,
+    isTable: type === 0x05 || type === 0x0d,
+    isLeaf,
+    cells: Array.from({ length: cellCount }, (_, i) => page.view.getUint16(pointers + i * 2)),
+    rightChild: isLeaf ? 0 : page.view.getUint32(header + 8)
+  };
+};
+
+// How much of a payload stays in the B-tree page (SQLite file format)
+const localPayloadSize = (db: Database, payloadSize: number, isTable: boolean) => {
+  const maxLocal = isTable ? db.usableSize - 35 : Math.floor((db.usableSize - 12) * 64 / 255) - 23;
+  if (payloadSize <= maxLocal) return payloadSize;
+  const minLocal = Math.floor((db.usableSize - 12) * 32 / 255) - 23;
+  const size = minLocal + ((payloadSize - minLocal) % (db.usableSize - 4));
+  return size <= maxLocal ? size : minLocal;
+};
+
+// Table leaf cells start with the payload size and the rowid, index cells with the payload size
+// (after the child page number in interior pages)
+const readCell = (db: Database, node: BTreePage, offset: number): Cell => {
+  const { bytes, view } = node.page;
+  let start = node.isLeaf ? offset : offset + 4;
+  const [payloadSize, sizeLength] = readVarint(bytes, start);
+  start += sizeLength;
+  if (node.isTable) start += readVarint(bytes, start)[1];
+  const localSize = localPayloadSize(db, payloadSize, node.isTable);
+  const hasOverflow = localSize < payloadSize;
+  if (start + localSize + (hasOverflow ? 4 : 0) > bytes.length) throw corrupted();
+  return {
+    payloadSize,
+    local: bytes.subarray(start, start + localSize),
+    overflowPage: hasOverflow ? view.getUint32(start + localSize) : 0
+  };
+};
+
+// Rowid of a table leaf cell, or key of a table interior cell (largest rowid of its left child)
+const cellRowid = (node: BTreePage, offset: number) => {
+  if (!node.isLeaf) return readVarint(node.page.bytes, offset + 4)[0];
+  const [, sizeLength] = readVarint(node.page.bytes, offset);
+  return readVarint(node.page.bytes, offset + sizeLength)[0];
+};
+
+const fullPayload = async (db: Database, cell: Cell): Promise<Uint8Array> => {
+  if (!cell.overflowPage) return cell.local;
+  const payload = new Uint8Array(cell.payloadSize);
+  payload.set(cell.local);
+  let written = cell.local.length;
+  let pageNumber = cell.overflowPage;
+  // Each overflow page starts with the number of the next one
+  while (written < cell.payloadSize) {
+    if (pageNumber === 0) throw corrupted();
+    const page = await readPage(db, pageNumber);
+    const chunk = Math.min(db.usableSize - 4, cell.payloadSize - written);
+    payload.set(page.bytes.subarray(4, 4 + chunk), written);
+    written += chunk;
+    pageNumber = page.view.getUint32(0);
+  }
+  return payload;
+};
+
+const serialSize = (type: number) => {
+  if (type >= 12) return Math.floor((type - 12) / 2);
+  return [0, 1, 2, 3, 4, 6, 8, 8, 0, 0, 0, 0][type];
+};
+
+const textDecoder = new TextDecoder();
+
+const serialValue = (bytes: Uint8Array, offset: number, type: number, size: number): SqlValue => {
+  if (type === 0) return null;
+  if (type === 7) return new DataView(bytes.buffer, bytes.byteOffset + offset, 8).getFloat64(0);
+  if (type === 8) return 0;
+  if (type === 9) return 1;
+  if (type >= 12) {
+    const data = bytes.subarray(offset, offset + size);
+    return type % 2 === 0 ? data : textDecoder.decode(data);
+  }
+  // Signed big-endian integers of 1 to 8 bytes
+  let value = bytes[offset] >= 0x80 ? bytes[offset] - 256 : bytes[offset];
+  for (let i = 1; i < size; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+// The first `count` columns of a record, or null when they are not all within `bytes`
+const readRecord = (bytes: Uint8Array, count = Infinity): SqlValue[] | null => {
+  const [headerSize, headerSizeLength] = readVarint(bytes, 0);
+  if (headerSize > bytes.length) return null;
+  const types: number[] = [];
+  for (let pos = headerSizeLength; pos < headerSize && types.length < count;) {
+    const [type, length] = readVarint(bytes, pos);
+    types.push(type);
+    pos += length;
+  }
+  const values: SqlValue[] = [];
+  let offset = headerSize;
+  for (const type of types) {
+    const size = serialSize(type);
+    if (offset + size > bytes.length) return null;
+    values.push(serialValue(bytes, offset, type, size));
+    offset += size;
+  }
+  return values;
+};
+
+// Leading columns come from the page when they fit, to avoid reading the overflow pages of large tiles
+const readRow = async (db: Database, cell: Cell, count = Infinity): Promise<SqlValue[]> => {
+  const values = readRecord(cell.local, count) || readRecord(await fullPayload(db, cell), count);
+  if (!values) throw corrupted();
+  return values;
+};
+
+// Calls `visit` with every row cell of a table B-tree
+const scanTable = async (db: Database, rootPage: number, visit: (cell: Cell, rowid: number) => Promise<void>) => {
+  const pending = [rootPage];
+  const seen = new Set<number>();
+  while (pending.length > 0) {
+    const pageNumber = pending.pop()!;
+    if (seen.has(pageNumber)) throw corrupted();
+    seen.add(pageNumber);
+    const node = await readBTreePage(db, pageNumber);
+    if (!node.isTable) throw corrupted();
+    for (const offset of node.cells) {
+      // Interior cells hold the left child page, leaf cells a row
+      if (node.isLeaf) await visit(readCell(db, node, offset), cellRowid(node, offset));
+      else pending.push(node.page.view.getUint32(offset));
+    }
+    if (!node.isLeaf) pending.push(node.rightChild);
+  }
+};
+
+// Row cell of a table B-tree by rowid, following the interior keys down to the leaf
+const findRow = async (db: Database, rootPage: number, rowid: number): Promise<Cell | null> => {
+  let pageNumber = rootPage;
+  for (let depth = 0; depth < MAX_TREE_DEPTH; depth++) {
+    const node = await readBTreePage(db, pageNumber);
+    if (!node.isTable) throw corrupted();
+    if (node.isLeaf) {
+      const offset = node.cells.find(cell => cellRowid(node, cell) === rowid);
+      return offset === undefined ? null : readCell(db, node, offset);
+    }
+    const next = node.cells.find(cell => cellRowid(node, cell) >= rowid);
+    pageNumber = next === undefined ? node.rightChild : node.page.view.getUint32(next);
+  }
+  throw corrupted();
+};
+
+// SQLite ordering: NULL, then numbers, then text, then blobs (binary collation)
+const typeRank = (value: SqlValue) => value === null ? 0 : typeof value === 'number' ? 1 : typeof value === 'string' ? 2 : 3;
+
+const compareValues = (a: SqlValue, b: SqlValue): number => {
+  const rank = typeRank(a) - typeRank(b);
+  if (rank !== 0 || a === null || b === null) return rank;
+  if (a instanceof Uint8Array && b instanceof Uint8Array) {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+      if (a[i] !== b[i]) return a[i] - b[i];
+    }
+    return a.length - b.length;
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+const compareKeys = (record: SqlValue[], key: SqlValue[]) => {
+  for (let i = 0; i < key.length; i++) {
+    const order = compareValues(record[i] ?? null, key[i]);
+    if (order !== 0) return order;
+  }
+  return 0;
+};
+
+// Entry of an index B-tree (key columns then rowid) whose leading columns equal `key`.
+// Interior cells of an index hold entries too, between those of their neighbouring children.
+const findIndexEntry = async (db: Database, rootPage: number, key: SqlValue[]): Promise<SqlValue[] | null> => {
+  let pageNumber = rootPage;
+  for (let depth = 0; depth < MAX_TREE_DEPTH; depth++) {
+    const node = await readBTreePage(db, pageNumber);
+    if (node.isTable) throw corrupted();
+    let child = node.rightChild;
+    for (const offset of node.cells) {
+      const entry = await readRow(db, readCell(db, node, offset));
+      const order = compareKeys(entry, key);
+      if (order === 0) return entry;
+      if (order > 0) {
+        child = node.isLeaf ? 0 : node.page.view.getUint32(offset);
+        break;
+      }
+    }
+    if (node.isLeaf) return null;
+    pageNumber = child;
+  }
+  throw corrupted();
+};
+
+// First or last entry of an index B-tree, null when the index is empty
+const indexEdgeEntry = async (db: Database, rootPage: number, last: boolean): Promise<SqlValue[] | null> => {
+  let pageNumber = rootPage;
+  for (let depth = 0; depth < MAX_TREE_DEPTH; depth++) {
+    const node = await readBTreePage(db, pageNumber);
+    if (node.isTable) throw corrupted();
+    if (node.isLeaf) {
+      if (node.cells.length === 0) return null;
+      return readRow(db, readCell(db, node, node.cells[last ? node.cells.length - 1 : 0]));
+    }
+    pageNumber = last || node.cells.length === 0 ? node.rightChild : node.page.view.getUint32(node.cells[0]);
+  }
+  throw corrupted();
+};
+
+// Column names of a CREATE TABLE or CREATE INDEX statement, table constraints left out
+const statementColumns = (sql: string): string[] => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current);
+  return definitions
+    .map(d => d.trim())
+    .filter(d => !/^(constraint|primary|unique|check|foreign)\b/i.test(d))
+    .map(d => (d.match(/^["`[]?([^"`\]\s]+)/)?.[1] || '').toLowerCase());
+};
+
+interface Table {
+  rootPage: number;
+  columns: string[];
+}
+
+interface Index {
+  table: string;
+  rootPage: number;
+  columns: string[];
+}
+
+interface Schema {
+  tables: Map<string, Table>;
+  indexes: Index[];
+}
+
+const columnIndex = (table: Table, name: string) => {
+  const index = table.columns.indexOf(name);
+  if (index < 0) throw new MbTilesError(`Colonne "${name}" introuvable dans le fichier MBTiles.`);
+  return index;
+};
+
+const openDatabase = async (file: Blob): Promise<Database> => {
+  const header = new Uint8Array(await file.slice(0, 100).arrayBuffer());
+  if (header.length < 100 || textDecoder.decode(header.subarray(0, 15)) !== 'SQLite format 3') {
+    throw new MbTilesError("Ce fichier n'est pas une base MBTiles (SQLite).");
+  }
+  const view = new DataView(header.buffer);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  if (view.getUint32(56) > 1) throw new MbTilesError("Encodage de texte SQLite non pris en charge (UTF-16).");
+  return { file, pageSize, usableSize: pageSize - header[20], pageCount: Math.floor(file.size / pageSize), blocks: new Map() };
+};
+
+const readSchema = async (db: Database): Promise<Schema> => {
+  const tables = new Map<string, Table>();
+  const indexes: Index[] = [];
+  // sqlite_master: type, name, tbl_name, rootpage, sql
+  await scanTable(db, 1, async cell => {
+    const [type, name, tableName, rootPage, sql] = await readRow(db, cell);
+    if (typeof name !== 'string' || typeof tableName !== 'string' || typeof rootPage !== 'number' || typeof sql !== 'string') return;
+    if (type === 'table') tables.set(name.toLowerCase(), { rootPage, columns: statementColumns(sql) });
+    // Partial indexes miss rows; indexes created with the table (no sql) are not used
+    if (type === 'index' && !/\)\s*where\b/i.test(sql)) {
+      indexes.push({ table: tableName.toLowerCase(), rootPage, columns: statementColumns(sql) });
+    }
+  });
+  return { tables, indexes };
+};
+
+// Rowid of the row whose `columns` equal a key, through an index on these columns when the file has
+// one; otherwise the key columns of every row are read once, when the archive is opened
+interface RowLookup {
+  find: (key: SqlValue[]) => Promise<number | null>;
+  range: [SqlValue[], SqlValue[]] | null; // Smallest and largest keys, null for an empty table
+}
+
+const rowLookup = async (db: Database, schema: Schema, tableName: string, columns: string[]): Promise<RowLookup> => {
+  const index = schema.indexes.find(i => i.table === tableName && columns.every((column, k) => i.columns[k] === column));
+  if (index) {
+    const rowidOf = (entry: SqlValue[] | null) => {
+      const rowid = entry?.[index.columns.length];
+      return typeof rowid === 'number' ? rowid : null;
+    };
+    const first = await indexEdgeEntry(db, index.rootPage, false);
+    const last = await indexEdgeEntry(db, index.rootPage, true);
+    return {
+      find: async key => rowidOf(await findIndexEntry(db, index.rootPage, key)),
+      range: first && last ? [first.slice(0, columns.length), last.slice(0, columns.length)] : null
+    };
+  }
+
+  const table = schema.tables.get(tableName)!;
+  const positions = columns.map(column => columnIndex(table, column));
+  const rows = new Map<string, number>();
+  let range = null as [SqlValue[], SqlValue[]] | null;
+  await scanTable(db, table.rootPage, async (cell, rowid) => {
+    const row = await readRow(db, cell, Math.max(...positions) + 1);
+    const key = positions.map(p => row[p] ?? null);
+    rows.set(JSON.stringify(key), rowid);
+    if (!range) range = [key, key];
+    else if (compareKeys(key, range[0]) < 0) range = [key, range[1]];
+    else if (compareKeys(key, range[1]) > 0) range = [range[0], key];
+  });
+  return { find: async key => rows.get(JSON.stringify(key)) ?? null, range };
+};
+
+const LOCATION_COLUMNS = ['zoom_level', 'tile_column', 'tile_row'];
+
+export const openMbTiles = async (file: Blob, fileName: string): Promise<MbTilesArchive> => {
+  const db = await openDatabase(file);
+  const schema = await readSchema(db);
+  const { tables } = schema;
+
+  const metadata: Record<string, string> = {};
+  const metadataTable = tables.get('metadata');
+  if (metadataTable) {
+    const nameIndex = columnIndex(metadataTable, 'name');
+    const valueIndex = columnIndex(metadataTable, 'value');
+    await scanTable(db, metadataTable.rootPage, async cell => {
+      const row = await readRow(db, cell);
+      if (typeof row[nameIndex] === 'string') metadata[row[nameIndex] as string] = String(row[valueIndex] ?? '');
+    });
+  }
+  const format = (metadata.format || 'png').toLowerCase();
+  if (!TILE_MIME_TYPES[format]) {
+    throw new MbTilesError(format === 'pbf'
+      ? "Les tuiles vectorielles (pbf) ne sont pas prises en charge, seulement les images."
+      : `Format de tuiles "${format}" non pris en charge.`);
+  }
+
+  // Row holding the image of a tile location (TMS rows)
+  let locations: RowLookup;
+  let findImageRow: (z: number, x: number, row: number) => Promise<Cell | null>;
+  let dataIndex: number;
+  const tilesTable = tables.get('tiles');
+  const mapTable = tables.get('map');
+  const imagesTable = tables.get('images');
+  if (tilesTable) {
+    LOCATION_COLUMNS.forEach(column => columnIndex(tilesTable, column));
+    dataIndex = columnIndex(tilesTable, 'tile_data');
+    locations = await rowLookup(db, schema, 'tiles', LOCATION_COLUMNS);
+    findImageRow = async (z, x, row) => {
+      const rowid = await locations.find([z, x, row]);
+      return rowid === null ? null : findRow(db, tilesTable.rootPage, rowid);
+    };
+  } else if (mapTable && imagesTable) {
+    // Deduplicated layout: "tiles" is a view joining map (location -> tile_id) and images (tile_id -> data)
+    LOCATION_COLUMNS.forEach(column => columnIndex(mapTable, column));
+    const mapIdIndex = columnIndex(mapTable, 'tile_id');
+    columnIndex(imagesTable, 'tile_id');
+    dataIndex = columnIndex(imagesTable, 'tile_data');
+    locations = await rowLookup(db, schema, 'map', LOCATION_COLUMNS);
+    const images = await rowLookup(db, schema, 'images', ['tile_id']);
+    findImageRow = async (z, x, row) => {
+      const mapRowid = await locations.find([z, x, row]);
+      const mapCell = mapRowid === null ? null : await findRow(db, mapTable.rootPage, mapRowid);
+      if (!mapCell) return null;
+      const tileId = (await readRow(db, mapCell, mapIdIndex + 1))[mapIdIndex];
+      const imageRowid = await images.find([tileId]);
+      return imageRowid === null ? null : findRow(db, imagesTable.rootPage, imageRowid);
+    };
+  } else {
+    throw new MbTilesError("Aucune table de tuiles dans ce fichier MBTiles.");
+  }
+  if (!locations.range) throw new MbTilesError("Ce fichier MBTiles ne contient aucune tuile.");
+  const [minZoom, maxZoom] = [locations.range[0][0], locations.range[1][0]];
+  if (typeof minZoom !== 'number' || typeof maxZoom !== 'number') throw corrupted();
+
+  // bounds: "west,south,east,north"
+  const box = (metadata.bounds || '').split(',').map(parseFloat);
+  const bounds = box.length === 4 && box.every(Number.isFinite)
+    ? [{ lat: box[1], lng: box[0] }, { lat: box[3], lng: box[2] }]
+    : undefined;
+
+  return {
+    name: metadata.name || fileName.replace(/\.mbtiles$/i, ''),
+    format,
+    attribution: metadata.attribution || metadata.name || fileName,
+    minZoom,
+    maxZoom,
+    bounds,
+    // MBTiles rows count from the south (TMS)
+    getTile: async (z, x, y) => {
+      const cell = await findImageRow(z, x, Math.pow(2, z) - 1 - y);
+      const data = cell ? (await readRow(db, cell))[dataIndex] : null;
+      return data instanceof Uint8Array ? data : null;
+    }
+  };
+};
+
+// Object URL of a tile image, to be revoked once loaded. Null when the tile is missing, or unreadable:
+// a damaged page then leaves an empty tile instead of breaking the map layer or the report.
+export const mbTilesObjectUrl = async (archive: MbTilesArchive, z: number, x: number, y: number): Promise<string | null> => {
+  let data: Uint8Array | null;
+  try {
+    data = await archive.getTile(z, x, y);
+  } catch (err) {
+    console.warn(`Tuile MBTiles ${z}/${x}/${y} illisible:`, err);
+    return null;
+  }
+  return data ? URL.createObjectURL(new Blob([data as BlobPart], { type: TILE_MIME_TYPES[archive.format] })) : null;
+};
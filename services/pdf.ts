@@ -0,0 +1,157 @@
+// Minimal PDF writer: A4 pages, Helvetica text (WinAnsi), lines, rectangles and JPEG images.
+// Coordinates are in points from the TOP-LEFT corner of the page.
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export type PdfColor = [number, number, number];
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  // Raw JPEG bytes as a binary string (one char per byte)
+  data: string;
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'right' | 'center';
+}
+
+// Unicode -> WinAnsiEncoding for the characters outside Latin-1 that French text uses
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, 'Œ': 0x8c, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, 'œ': 0x9c, 'Ÿ': 0x9f, '\u202f': 0x20
+};
+
+const toWinAnsi = (value: string) => Array.from(value).map(char => {
+  const code = char.charCodeAt(0);
+  if (WIN_ANSI_EXTRA[char] !== undefined) return String.fromCharCode(WIN_ANSI_EXTRA[char]);
+  if (code === 0xa0) return ' ';
+  return code < 256 ? char : '?';
+}).join('');
+
+const escapePdfString = (value: string) => toWinAnsi(value).replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = (color: PdfColor) => color.map(c => num(c / 255)).join(' ');
+
+// Text metrics through a canvas: Arial is metric-compatible with Helvetica
+let measureContext: CanvasRenderingContext2D | null = null;
+export const measureText = (value: string, size: number, bold = false): number => {
+  if (!measureContext) measureContext = document.createElement('canvas').getContext('2d');
+  if (!measureContext) return value.length * size * 0.5;
+  measureContext.font = `${bold ? 'bold ' : ''}${size}px Helvetica, Arial, sans-serif`;
+  return measureContext.measureText(value).width;
+};
+
+export const wrapText = (value: string, maxWidth: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  value.split('\n').forEach(paragraph => {
+    const words = paragraph.split(/\s+/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push('');
+      return;
+    }
+    let current = '';
+    words.forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && measureText(candidate, size, bold) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    lines.push(current);
+  });
+  return lines;
+};
+
+export const createPdf = () => {
+  const pages: string[][] = [];
+  const images: PdfImage[] = [];
+  let current: string[] = [];
+
+  const addPage = () => {
+    current = [];
+    pages.push(current);
+  };
+  addPage();
+
+  const y = (top: number) => A4_HEIGHT - top;
+
+  const text = (value: string, x: number, top: number, options: TextOptions = {}) => {
+    const size = options.size || 10;
+    let left = x;
+    if (options.align === 'right') left = x - measureText(value, size, options.bold);
+    if (options.align === 'center') left = x - measureText(value, size, options.bold) / 2;
+    current.push(`BT /${options.bold ? 'F2' : 'F1'} ${num(size)} Tf ${rgb(options.color || [31, 41, 55])} rg ${num(left)} ${num(y(top) - size)} Td (${escapePdfString(value)}) Tj ET`);
+  };
+
+  const line = (x1: number, top1: number, x2: number, top2: number, color: PdfColor = [209, 213, 219], width = 0.5) => {
+    current.push(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(y(top1))} m ${num(x2)} ${num(y(top2))} l S`);
+  };
+
+  const rect = (x: number, top: number, width: number, height: number, fill: PdfColor) => {
+    current.push(`${rgb(fill)} rg ${num(x)} ${num(y(top) - height)} ${num(width)} ${num(height)} re f`);
+  };
+
+  const image = (img: PdfImage, x: number, top: number, width: number, height: number) => {
+    images.push(img);
+    current.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y(top) - height)} cm /Im${images.length} Do Q`);
+  };
+
+  // Serializes the document; returns the file bytes
+  const toBytes = (): Uint8Array => {
+    const objects: string[] = [];
+    const addObject = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = addObject('');
+    const pagesId = addObject('');
+    const fontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldFontId = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const imageIds = images.map(img => addObject(
+      `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.data.length} >>\nstream\n${img.data}\nendstream`
+    ));
+    const xObjects = imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(' ');
+    const pageIds = pages.map(commands => {
+      const content = commands.join('\n');
+      const contentId = addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      return addObject(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] /Contents ${contentId} 0 R /Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> /XObject << ${xObjects} >> >> >>`);
+    });
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(o => `${o.toString().padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i) & 0xff;
+    return bytes;
+  };
+
+  return { addPage, text, line, rect, image, toBytes };
+};
+
+export type PdfDocument = ReturnType<typeof createPdf>;
+
+// Converts a canvas JPEG data URL into an embeddable image
+export const jpegFromDataUrl = (dataUrl: string, width: number, height: number): PdfImage => ({
+  width,
+  height,
+  data: atob(dataUrl.split(',')[1] || '')
+});
@@ -0,0 +1,235 @@
+import { GeoPoint, Layer, LayerGroup, MapSettings, ProjectState, Shape, StoredProject } from "../types";
+import { DEFAULT_MAP_SETTINGS } from "./projectStorage";
+import { layerQuantityKind, resolveUnitSettings, sanitizeUnitSettings, toBasePrice } from "./units";
+import { isValidDerivedQuantity } from "./derived";
+import { descendantGroupIds } from "./layerGroups";
+
+// Project file format (.metre.json)
+//
+// v0: raw ProjectState dump ({ layers, shapes, activeLayerId }) without envelope.
+// v1: envelope with format marker, schema version, project metadata and map settings.
+// v2: point shapes, polygon holes, unit settings, layer pricing, derived quantities, shape
+//     properties (description, lot, tags, attributes), layer groups, map overlays and custom base
+//     layers.
+// v3: layer unit prices per m² or per m instead of per display unit.
+
+export const PROJECT_FILE_FORMAT = 'metremaster-project';
+export const PROJECT_FILE_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = '.metre.json';
+
+export interface ProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { name: string; createdAt: number; updatedAt: number };
+  state: ProjectState;
+  map: MapSettings;
+}
+
+export interface ImportedProject {
+  name: string;
+  state: ProjectState;
+  map: MapSettings;
+}
+
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+// --- Export ---
+
+export const serializeProject = (project: StoredProject): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { name: project.name, createdAt: project.createdAt, updatedAt: project.updatedAt },
+    state: project.state,
+    map: project.map
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+// --- Migrations ---
+
+// A parsed file, narrowed field by field
+type FileData = Record<string, unknown>;
+type Migration = (data: FileData) => FileData;
+
+// MIGRATIONS[n] upgrades a file from version n to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  0: (data) => ({
+    format: PROJECT_FILE_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    project: { name: typeof data.name === 'string' ? data.name : 'Projet importé', createdAt: Date.now(), updatedAt: Date.now() },
+    state: { layers: data.layers, shapes: data.shapes, activeLayerId: data.activeLayerId ?? null },
+    map: DEFAULT_MAP_SETTINGS
+  }),
+  // v2 only adds optional fields
+  1: (data) => ({ ...data, version: 2 }),
+  // v2 files priced layers per display unit (€/ha, €/cm...)
+  2: (data) => {
+    const state = data.state;
+    if (!isObject(state) || !Array.isArray(state.layers)) return { ...data, version: 3 };
+    const projectUnits = sanitizeUnitSettings(state.units);
+    const layers = state.layers.map((layer: unknown) => {
+      if (!isObject(layer) || !isObject(layer.pricing) || !isFiniteNumber(layer.pricing.unitPrice)) return layer;
+      // Only the type and the units are read; the layer itself is validated after the migrations
+      const target = { type: layer.type, units: sanitizeUnitSettings(layer.units) } as Layer;
+      const unitPrice = toBasePrice(layer.pricing.unitPrice, layerQuantityKind(target), resolveUnitSettings(projectUnits, target));
+      return { ...layer, pricing: { ...layer.pricing, unitPrice } };
+    });
+    return { ...data, version: 3, state: { ...state, layers } };
+  }
+};
+
+const detectVersion = (data: FileData): number => {
+  if (data.format === undefined && Array.isArray(data.layers) && Array.isArray(data.shapes)) return 0;
+  if (data.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError("Ce fichier n'est pas un projet MétréMaster.");
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 0) {
+    throw new ProjectFileError("Version du fichier projet invalide.");
+  }
+  return data.version;
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const validatePoint = (raw: unknown, where: string): GeoPoint => {
+  if (!isObject(raw) || !isFiniteNumber(raw.lat) || !isFiniteNumber(raw.lng)) {
+    throw new ProjectFileError(`Coordonnée invalide (${where}).`);
+  }
+  return { lat: raw.lat, lng: raw.lng };
+};
+
+const validateLayer = (raw: unknown, index: number): Layer => {
+  const where = `calque n°${index + 1}`;
+  if (!isObject(raw)) throw new ProjectFileError(`Calque invalide (${where}).`);
+  if (typeof raw.id !== 'string' || typeof raw.name !== 'string' || typeof raw.color !== 'string') {
+    throw new ProjectFileError(`Identifiant, nom ou couleur manquant (${where}).`);
+  }
+  if (typeof raw.type !== 'string' || !['surface', 'length', 'mixed'].includes(raw.type)) throw new ProjectFileError(`Type de calque inconnu "${raw.type}" (${where}).`);
+  if (typeof raw.category !== 'string' || !['measurement', 'kml'].includes(raw.category)) throw new ProjectFileError(`Catégorie de calque inconnue "${raw.category}" (${where}).`);
+  if (typeof raw.isVisible !== 'boolean' || !isFiniteNumber(raw.opacity)) {
+    throw new ProjectFileError(`Visibilité ou opacité invalide (${where}).`);
+  }
+  if (raw.pricing !== undefined && !(isObject(raw.pricing)
+    && [raw.pricing.unitPrice, raw.pricing.wastePercent, raw.pricing.vatRate].every(v => isFiniteNumber(v) && v >= 0))) {
+    throw new ProjectFileError(`Prix invalide (${where}).`);
+  }
+  if (raw.derived !== undefined && !isValidDerivedQuantity(raw.derived)) {
+    throw new ProjectFileError(`Quantité dérivée invalide (${where}).`);
+  }
+  const layer = { ...raw, id: raw.id, name: raw.name, type: raw.type, category: raw.category } as Layer;
+  if (raw.units === undefined) return layer;
+  const units = sanitizeUnitSettings(raw.units);
+  return { ...layer, units: Object.keys(units).length > 0 ? units : undefined };
+};
+
+const validateGroups = (raw: unknown): LayerGroup[] => {
+  if (!Array.isArray(raw)) throw new ProjectFileError("Groupes de calques invalides.");
+  const groups = raw.map((g: unknown, index: number): LayerGroup => {
+    const where = `groupe n°${index + 1}`;
+    if (!isObject(g) || typeof g.id !== 'string' || typeof g.name !== 'string' || typeof g.isVisible !== 'boolean') {
+      throw new ProjectFileError(`Groupe invalide (${where}).`);
+    }
+    if (g.parentId !== undefined && typeof g.parentId !== 'string') throw new ProjectFileError(`Groupe parent invalide (${where}).`);
+    return { id: g.id, name: g.name, isVisible: g.isVisible, ...(typeof g.parentId === 'string' ? { parentId: g.parentId } : {}) };
+  });
+  const groupIds = new Set(groups.map(g => g.id));
+  if (groupIds.size !== groups.length) throw new ProjectFileError("Fichier projet corrompu : identifiants de groupes en double.");
+  groups.forEach(g => {
+    if (g.parentId !== undefined && !groupIds.has(g.parentId)) throw new ProjectFileError(`Groupe parent introuvable pour "${g.name}".`);
+  });
+  // A group inside its own sub-groups would never be reachable from the top level
+  groups.forEach(g => {
+    if (g.parentId && descendantGroupIds(g.id, groups).has(g.parentId)) throw new ProjectFileError(`Groupes imbriqués en boucle ("${g.name}").`);
+  });
+  return groups;
+};
+
+const validateShape = (raw: unknown, index: number, layerIds: Set<string>): Shape => {
+  const where = `forme n°${index + 1}`;
+  if (!isObject(raw)) throw new ProjectFileError(`Forme invalide (${where}).`);
+  if (typeof raw.id !== 'string' || typeof raw.name !== 'string') throw new ProjectFileError(`Identifiant ou nom manquant (${where}).`);
+  if (typeof raw.type !== 'string' || !['polygon', 'polyline', 'point'].includes(raw.type)) throw new ProjectFileError(`Type de forme inconnu "${raw.type}" (${where}).`);
+  if (typeof raw.layerId !== 'string' || !layerIds.has(raw.layerId)) throw new ProjectFileError(`Calque introuvable pour ${where}.`);
+  if (!isFiniteNumber(raw.measuredValue)) throw new ProjectFileError(`Valeur mesurée invalide (${where}).`);
+  if (!Array.isArray(raw.points)) throw new ProjectFileError(`Points manquants (${where}).`);
+  const points = raw.points.map((p: unknown) => validatePoint(p, where));
+  const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+  if (!isOptionalString(raw.description) || !isOptionalString(raw.lot)
+    || (raw.tags !== undefined && !(Array.isArray(raw.tags) && raw.tags.every((t: unknown) => typeof t === 'string')))
+    || (raw.attributes !== undefined && !(isObject(raw.attributes) && Object.values(raw.attributes).every(v => typeof v === 'string')))) {
+    throw new ProjectFileError(`Attributs invalides (${where}).`);
+  }
+  if (raw.holes === undefined) return { ...raw, points } as Shape;
+  if (!Array.isArray(raw.holes) || !raw.holes.every(Array.isArray)) throw new ProjectFileError(`Contours intérieurs invalides (${where}).`);
+  const holes = raw.holes.map((hole: unknown[]) => hole.map(p => validatePoint(p, where)));
+  return { ...raw, points, holes } as Shape;
+};
+
+const validateMapSettings = (raw: unknown): MapSettings => {
+  if (!isObject(raw)) return DEFAULT_MAP_SETTINGS;
+  return {
+    center: isObject(raw.center) ? validatePoint(raw.center, 'centre de la carte') : DEFAULT_MAP_SETTINGS.center,
+    zoom: isFiniteNumber(raw.zoom) ? raw.zoom : DEFAULT_MAP_SETTINGS.zoom,
+    // Sources are registered per browser: unknown ids fall back to the default when displayed
+    baseLayer: typeof raw.baseLayer === 'string' && raw.baseLayer ? raw.baseLayer : DEFAULT_MAP_SETTINGS.baseLayer,
+    ...(Array.isArray(raw.overlays) ? { overlays: raw.overlays.filter((id: unknown) => typeof id === 'string') } : {})
+  };
+};
+
+// --- Import ---
+
+export const parseProjectFile = (text: string): ImportedProject => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError("Fichier illisible : le contenu n'est pas un JSON valide.");
+  }
+  if (!isObject(data)) throw new ProjectFileError("Ce fichier n'est pas un projet MétréMaster.");
+
+  let file: FileData = data;
+  let version = detectVersion(file);
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(`Ce fichier a été créé avec une version plus récente de MétréMaster (format v${version}, cette application lit jusqu'à v${PROJECT_FILE_VERSION}). Mettez l'application à jour.`);
+  }
+  while (version < PROJECT_FILE_VERSION) {
+    file = MIGRATIONS[version](file);
+    version++;
+  }
+  const { state } = file;
+
+  if (!isObject(state) || !Array.isArray(state.layers) || !Array.isArray(state.shapes)) {
+    throw new ProjectFileError("Fichier projet incomplet : calques ou formes manquants.");
+  }
+  const layers = state.layers.map(validateLayer);
+  const layerIds = new Set<string>(layers.map((l: Layer) => l.id));
+  if (layerIds.size !== layers.length) throw new ProjectFileError("Fichier projet corrompu : identifiants de calques en double.");
+  const groups = state.groups === undefined ? undefined : validateGroups(state.groups);
+  layers.forEach((l: Layer) => {
+    if (l.groupId !== undefined && !groups?.some(g => g.id === l.groupId)) {
+      throw new ProjectFileError(`Groupe introuvable pour le calque "${l.name}".`);
+    }
+  });
+  const shapes = state.shapes.map((s: unknown, i: number) => validateShape(s, i, layerIds));
+  const activeLayerId = typeof state.activeLayerId === 'string' && layerIds.has(state.activeLayerId) ? state.activeLayerId : null;
+  // Invalid unit fields fall back to the defaults rather than rejecting the file
+  const units = state.units === undefined ? undefined : resolveUnitSettings(sanitizeUnitSettings(state.units));
+
+  return {
+    name: isObject(file.project) && typeof file.project.name === 'string' && file.project.name.trim() ? file.project.name : 'Projet importé',
+    state: { layers, shapes, activeLayerId, ...(units ? { units } : {}), ...(groups ? { groups } : {}) },
+    map: validateMapSettings(file.map)
+  };
+};
@@ -0,0 +1,106 @@
+import { MapSettings, ProjectState, ProjectSummary, StoredProject } from "../types";
+import { generateId } from "./ids";
+
+const DB_NAME = 'metremaster';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+const LAST_PROJECT_KEY = 'metremaster:lastProjectId';
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  center: { lat: 48.8566, lng: 2.3522 },
+  zoom: 18,
+  baseLayer: 'plan'
+};
+
+export const createDefaultProjectState = (): ProjectState => {
+  const layerId = generateId();
+  return {
+    layers: [
+      { id: layerId, name: 'Murs', color: '#ef4444', type: 'surface', category: 'measurement', isVisible: true, opacity: 0.5 },
+    ],
+    shapes: [],
+    activeLayerId: layerId
+  };
+};
+
+export const createProject = (name: string, state: ProjectState = createDefaultProjectState(), map: MapSettings = DEFAULT_MAP_SETTINGS): StoredProject => {
+  const now = Date.now();
+  return { id: generateId(), name, createdAt: now, updatedAt: now, state, map: { ...map } };
+};
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB n'est pas disponible dans ce navigateur."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Public API ---
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<StoredProject[]>('readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt }) => ({ id, name, createdAt, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<StoredProject | null> => {
+  const project = await runRequest<StoredProject | undefined>('readonly', store => store.get(id));
+  return project || null;
+};
+
+export const saveProject = async (project: StoredProject): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  if (getLastProjectId() === id) localStorage.removeItem(LAST_PROJECT_KEY);
+};
+
+export const getLastProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastProjectId = (id: string) => {
+  try {
+    localStorage.setItem(LAST_PROJECT_KEY, id);
+  } catch {
+    // Storage may be disabled (private mode); the project itself is still saved
+  }
+};
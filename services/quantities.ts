@@ -0,0 +1,258 @@
+import { Layer, Shape, UnitSettings } from "../types";
+import { createZip } from "./zip";
+import { layerQuantityKind, resolveUnitSettings, sumDisplayValues, toDisplayValue, unitLabel } from "./units";
+import { CostSummary, formatPercent } from "./costs";
+import { attributeKeys } from "./attributes";
+
+// Récapitulatif des quantités: one section per measurement layer, one row per shape
+
+export interface QuantityRow {
+  name: string;
+  type: string;
+  value: number; // Converted and rounded
+  unit: string;
+  shape: Shape;
+}
+
+export interface QuantitySection {
+  layer: Layer;
+  rows: QuantityRow[];
+  subtotal: number;
+  unit: string;
+  decimals: number;
+}
+
+const typeLabel = (shape: Shape) => shape.type === 'polygon' ? 'Surface' : shape.type === 'polyline' ? 'Linéaire' : 'Point';
+
+export const buildQuantitySections = (layers: Layer[], shapes: Shape[], units: UnitSettings): QuantitySection[] =>
+  layers
+    .filter(l => l.category === 'measurement')
+    .map(layer => {
+      const layerUnits = resolveUnitSettings(units, layer);
+      const kind = layerQuantityKind(layer);
+      const unit = unitLabel(kind, layerUnits);
+      const rows = shapes
+        .filter(s => s.layerId === layer.id)
+        .map(s => ({ name: s.name, type: typeLabel(s), value: toDisplayValue(s.measuredValue, kind, layerUnits), unit, shape: s }));
+      return {
+        layer,
+        rows,
+        subtotal: sumDisplayValues(rows.map(r => r.value), layerUnits),
+        unit,
+        decimals: layerUnits.decimals
+      };
+    });
+
+// Descriptive columns after the quantity, only those used by at least one shape
+interface PropertyColumn {
+  header: string;
+  value: (shape: Shape) => string;
+}
+
+const propertyColumns = (sections: QuantitySection[]): PropertyColumn[] => {
+  const shapes = sections.flatMap(s => s.rows.map(r => r.shape));
+  const columns: PropertyColumn[] = [
+    { header: 'Lot', value: s => s.lot || '' },
+    { header: 'Tags', value: s => (s.tags || []).join(', ') },
+    { header: 'Description', value: s => s.description || '' }
+  ].filter(column => shapes.some(s => column.value(s) !== ''));
+  return [...columns, ...attributeKeys(shapes).map(key => ({ header: key, value: (s: Shape) => s.attributes?.[key] ?? '' }))];
+};
+
+// --- CSV (French locale: ";" separator, decimal comma) ---
+
+// Spreadsheets run cells starting with these as formulas; csvNumber output (e.g. "-12,5") stays a number
+const FORMULA_START = /^[=+\-@\t\r]/;
+const CSV_NUMBER = /^-?\d+(,\d+)?$/;
+
+const csvCell = (raw: string) => {
+  const value = FORMULA_START.test(raw) && !CSV_NUMBER.test(raw) ? `'${raw}` : raw;
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const csvNumber = (value: number, decimals: number) => value.toFixed(decimals).replace('.', ',');
+
+const COST_HEADERS = ['Calque', 'Quantité', 'Unité', 'Pertes (%)', 'Quantité facturée', 'PU HT (€)', 'Montant HT (€)', 'TVA (%)', 'Montant TTC (€)'];
+
+export const exportQuantitiesToCsv = (sections: QuantitySection[], projectName: string, costs?: CostSummary): string => {
+  const lines: string[][] = [
+    ['Récapitulatif des quantités'],
+    ['Projet', projectName],
+    ['Date', new Date().toLocaleDateString('fr-FR')],
+    []
+  ];
+  const extraColumns = propertyColumns(sections);
+  sections.forEach(section => {
+    lines.push([section.layer.name]);
+    lines.push(['Désignation', 'Type', 'Quantité', 'Unité', ...extraColumns.map(c => c.header)]);
+    section.rows.forEach(row => lines.push([row.name, row.type, csvNumber(row.value, section.decimals), row.unit, ...extraColumns.map(c => c.value(row.shape))]));
+    lines.push([`Sous-total ${section.layer.name}`, '', csvNumber(section.subtotal, section.decimals), section.unit]);
+    lines.push([]);
+  });
+  if (costs && costs.lines.length > 0) {
+    lines.push(['Estimation']);
+    lines.push(COST_HEADERS);
+    costs.lines.forEach(line => lines.push([
+      line.layer.name,
+      csvNumber(line.quantity, line.decimals),
+      line.unit,
+      csvNumber(line.wastePercent, 2),
+      csvNumber(line.billedQuantity, line.decimals),
+      csvNumber(line.unitPrice, 2),
+      csvNumber(line.amountHT, 2),
+      csvNumber(line.vatRate, 2),
+      csvNumber(line.amountTTC, 2)
+    ]));
+    lines.push(['Total HT', '', '', '', '', '', csvNumber(costs.totalHT, 2)]);
+    costs.vatLines.forEach(v => lines.push([`TVA ${formatPercent(v.rate)}`, '', '', '', '', '', csvNumber(v.vat, 2)]));
+    lines.push(['Total TTC', '', '', '', '', '', csvNumber(costs.totalTTC, 2)]);
+  }
+  // BOM so that Excel detects UTF-8 (accents, m²)
+  return '\uFEFF' + lines.map(cells => cells.map(csvCell).join(';')).join('\r\n');
+};
+
+// --- XLSX (single worksheet, hand-written OOXML) ---
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+// Cell style indexes, see buildStylesXml cellXfs
+const STYLE = { normal: 0, bold: 1, title: 2, header: 3, currency: 4, currencyBold: 5 };
+const FIXED_STYLE_COUNT = 6;
+
+// Custom number formats: the currency one, then one per precision
+const CURRENCY_FORMAT_ID = 164;
+const precisionFormatId = (index: number) => 165 + index;
+
+// Number styles come in pairs (normal, bold) per precision, after the fixed styles
+const numberStyle = (precisions: number[], decimals: number, bold = false) =>
+  FIXED_STYLE_COUNT + precisions.indexOf(decimals) * 2 + (bold ? 1 : 0);
+
+type XlsxCell =
+  | { kind: 'text'; value: string; style?: number }
+  | { kind: 'number'; value: number; style?: number }
+  | { kind: 'formula'; formula: string; value: number; style?: number };
+
+const text = (value: string, style = STYLE.normal): XlsxCell => ({ kind: 'text', value, style });
+const number = (value: number, style: number): XlsxCell => ({ kind: 'number', value, style });
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const renderCell = (cell: XlsxCell, ref: string) => {
+  const style = cell.style ? ` s="${cell.style}"` : '';
+  if (cell.kind === 'text') return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+  if (cell.kind === 'number') return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+  return `<c r="${ref}"${style}><f>${cell.formula}</f><v>${cell.value}</v></c>`;
+};
+
+const buildStylesXml = (precisions: number[]) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="${precisions.length + 1}"><numFmt numFmtId="${CURRENCY_FORMAT_ID}" formatCode="#,##0.00\\ &quot;€&quot;"/>${precisions.map((d, i) => `<numFmt numFmtId="${precisionFormatId(i)}" formatCode="${d === 0 ? '#,##0' : `#,##0.${'0'.repeat(d)}`}"/>`).join('')}</numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="14"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="${FIXED_STYLE_COUNT + precisions.length * 2}">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="${CURRENCY_FORMAT_ID}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="${CURRENCY_FORMAT_ID}" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+${precisions.map((_, i) => `<xf numFmtId="${precisionFormatId(i)}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="${precisionFormatId(i)}" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>`).join('\n')}
+</cellXfs>
+</styleSheet>`;
+
+export const exportQuantitiesToXlsx = (sections: QuantitySection[], projectName: string, costs?: CostSummary): Uint8Array => {
+  const costLines = costs?.lines || [];
+  const precisions = [...new Set([...sections.map(s => s.decimals), ...costLines.flatMap(l => [l.decimals, 2])])];
+  const rows: XlsxCell[][] = [
+    [text('Récapitulatif des quantités', STYLE.title)],
+    [text('Projet', STYLE.bold), text(projectName)],
+    [text('Date', STYLE.bold), text(new Date().toLocaleDateString('fr-FR'))],
+    []
+  ];
+  const extraColumns = propertyColumns(sections);
+  sections.forEach(section => {
+    rows.push([text(section.layer.name, STYLE.bold)]);
+    rows.push(['Désignation', 'Type', 'Quantité', 'Unité', ...extraColumns.map(c => c.header)].map(h => text(h, STYLE.header)));
+    const firstRow = rows.length + 1;
+    const valueStyle = numberStyle(precisions, section.decimals);
+    const subtotalStyle = numberStyle(precisions, section.decimals, true);
+    section.rows.forEach(row => rows.push([text(row.name), text(row.type), number(row.value, valueStyle), text(row.unit), ...extraColumns.map(c => text(c.value(row.shape)))]));
+    const lastRow = rows.length;
+    const subtotal: XlsxCell = section.rows.length > 0
+      ? { kind: 'formula', formula: `SUM(C${firstRow}:C${lastRow})`, value: section.subtotal, style: subtotalStyle }
+      : number(0, subtotalStyle);
+    rows.push([text(`Sous-total ${section.layer.name}`, STYLE.bold), text(''), subtotal, text(section.unit, STYLE.bold)]);
+    rows.push([]);
+  });
+  if (costs && costLines.length > 0) {
+    const empty = (count: number) => Array.from({ length: count }, () => text(''));
+    rows.push([text('Estimation', STYLE.bold)]);
+    rows.push(COST_HEADERS.map(h => text(h, STYLE.header)));
+    const firstRow = rows.length + 1;
+    const percentStyle = numberStyle(precisions, 2);
+    costLines.forEach(line => {
+      const r = rows.length + 1;
+      const quantityStyle = numberStyle(precisions, line.decimals);
+      rows.push([
+        text(line.layer.name),
+        number(line.quantity, quantityStyle),
+        text(line.unit),
+        number(line.wastePercent, percentStyle),
+        number(line.billedQuantity, quantityStyle),
+        number(line.unitPrice, STYLE.currency),
+        { kind: 'formula', formula: `ROUND(E${r}*F${r},2)`, value: line.amountHT, style: STYLE.currency },
+        number(line.vatRate, percentStyle),
+        { kind: 'formula', formula: `ROUND(G${r}*(1+H${r}/100),2)`, value: line.amountTTC, style: STYLE.currency }
+      ]);
+    });
+    const lastRow = rows.length;
+    rows.push([text('Total HT', STYLE.bold), ...empty(5), { kind: 'formula', formula: `SUM(G${firstRow}:G${lastRow})`, value: costs.totalHT, style: STYLE.currencyBold }]);
+    costs.vatLines.forEach(v => rows.push([text(`TVA ${formatPercent(v.rate)}`), ...empty(5), number(v.vat, STYLE.currency)]));
+    rows.push([text('Total TTC', STYLE.bold), ...empty(7), { kind: 'formula', formula: `SUM(I${firstRow}:I${lastRow})`, value: costs.totalTTC, style: STYLE.currencyBold }]);
+  }
+
+  const sheetRows = rows.map((cells, i) =>
+    `<row r="${i + 1}">${cells.map((cell, j) => renderCell(cell, `${columnName(j)}${i + 1}`)).join('')}</row>`
+  ).join('');
+
+  const sheetXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<cols><col min="1" max="1" width="40" customWidth="1"/><col min="2" max="2" width="14" customWidth="1"/><col min="3" max="3" width="14" customWidth="1"/><col min="4" max="4" width="8" customWidth="1"/><col min="5" max="${Math.max(9, 4 + extraColumns.length)}" width="16" customWidth="1"/></cols>
+<sheetData>${sheetRows}</sheetData>
+</worksheet>`;
+
+  return createZip([
+    { path: '[Content_Types].xml', data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>` },
+    { path: '_rels/.rels', data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>` },
+    { path: 'xl/workbook.xml', data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="Quantités" sheetId="1" r:id="rId1"/></sheets>
+</workbook>` },
+    { path: 'xl/_rels/workbook.xml.rels', data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>` },
+    { path: 'xl/styles.xml', data: buildStylesXml(precisions) },
+    { path: 'xl/worksheets/sheet1.xml', data: sheetXml }
+  ]);
+};
@@ -0,0 +1,172 @@
+import { Layer, LayerGroup, Shape, UnitSettings } from "../types";
+import { TileSource } from "./baseLayers";
+import { renderLayerSnapshot } from "./mapSnapshot";
+import { A4_HEIGHT, A4_WIDTH, createPdf, jpegFromDataUrl, wrapText } from "./pdf";
+import { formatNumber, formatQuantity, layerQuantityKind, resolveUnitSettings, unitLabel } from "./units";
+import { CostSummary, formatCurrency, formatPercent } from "./costs";
+import { isLayerDisplayed } from "./layerGroups";
+
+export interface ReportOptions {
+  projectName: string;
+  layers: Layer[];
+  groups: LayerGroup[]; // Hidden groups hide their layers from the plans
+  shapes: Shape[];
+  layerTotals: Record<string, number>; // In each layer's display unit
+  units: UnitSettings;
+  tiles?: TileSource[]; // Background of the layer snapshots: base map, then overlays
+  costs?: CostSummary;
+  analysis?: string;
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = A4_WIDTH - MARGIN * 2;
+const BOTTOM_LIMIT = A4_HEIGHT - MARGIN;
+
+
+// Markdown from Gemini rendered as plain text
+const stripMarkdown = (markdown: string) => markdown
+  .replace(/^#{1,6}\s*/gm, '')
+  .replace(/\*\*(.*?)\*\*/g, '$1')
+  .replace(/\*(.*?)\*/g, '$1')
+  .replace(/`([^`]*)`/g, '$1')
+  .replace(/^\s*[-*]\s+/gm, '• ');
+
+export const generateReportPdf = async (options: ReportOptions): Promise<Uint8Array> => {
+  const { projectName, layers, groups, shapes, layerTotals, units, tiles, costs, analysis } = options;
+  const formatTotal = (layer: Layer) => {
+    const layerUnits = resolveUnitSettings(units, layer);
+    return `${formatNumber(layerTotals[layer.id] || 0, layerUnits.decimals)} ${unitLabel(layerQuantityKind(layer), layerUnits)}`;
+  };
+  const pdf = createPdf();
+  let top = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (top + height > BOTTOM_LIMIT) {
+      pdf.addPage();
+      top = MARGIN;
+    }
+  };
+
+  const heading = (title: string) => {
+    ensureSpace(30);
+    pdf.text(title, MARGIN, top, { size: 14, bold: true });
+    top += 20;
+    pdf.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top, [37, 99, 235], 1);
+    top += 10;
+  };
+
+  // --- Title ---
+  pdf.rect(0, 0, A4_WIDTH, 90, [37, 99, 235]);
+  pdf.text('Rapport de métré', MARGIN, 25, { size: 22, bold: true, color: [255, 255, 255] });
+  pdf.text(projectName, MARGIN, 55, { size: 12, color: [219, 234, 254] });
+  pdf.text(new Date().toLocaleDateString('fr-FR', { day: '2-digit', month: 'long', year: 'numeric' }), A4_WIDTH - MARGIN, 55, { size: 10, color: [219, 234, 254], align: 'right' });
+  top = 120;
+
+  // --- Quantities table ---
+  const measurementLayers = layers.filter(l => l.category === 'measurement');
+  heading('Récapitulatif des quantités');
+  const columns = [
+    { label: 'Calque', x: MARGIN + 4 },
+    { label: 'Type', x: MARGIN + 230 },
+    { label: 'Formes', x: MARGIN + 330, align: 'right' as const },
+    { label: 'Quantité', x: MARGIN + CONTENT_WIDTH - 50, align: 'right' as const },
+    { label: 'Unité', x: MARGIN + CONTENT_WIDTH - 40 }
+  ];
+  pdf.rect(MARGIN, top, CONTENT_WIDTH, 18, [243, 244, 246]);
+  columns.forEach(c => pdf.text(c.label, c.x, top + 4, { size: 9, bold: true, align: c.align }));
+  top += 22;
+  measurementLayers.forEach(layer => {
+    ensureSpace(18);
+    const count = shapes.filter(s => s.layerId === layer.id).length;
+    const layerUnits = resolveUnitSettings(units, layer);
+    const values = [layer.name, layer.type === 'surface' ? 'Surface' : 'Linéaire', String(count), formatNumber(layerTotals[layer.id] || 0, layerUnits.decimals), unitLabel(layerQuantityKind(layer), layerUnits)];
+    columns.forEach((c, i) => pdf.text(values[i], c.x, top, { size: 9, align: c.align }));
+    top += 14;
+    pdf.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top);
+    top += 4;
+  });
+  if (measurementLayers.length === 0) {
+    pdf.text('Aucun calque de métré.', MARGIN + 4, top, { size: 9, color: [156, 163, 175] });
+    top += 18;
+  }
+  top += 16;
+
+  // --- Cost estimate ---
+  if (costs && costs.lines.length > 0) {
+    heading('Estimation');
+    const costColumns = [
+      { label: 'Calque', x: MARGIN + 4 },
+      { label: 'Quantité facturée', x: MARGIN + 250, align: 'right' as const },
+      { label: 'PU HT', x: MARGIN + 320, align: 'right' as const },
+      { label: 'Montant HT', x: MARGIN + 395, align: 'right' as const },
+      { label: 'TVA', x: MARGIN + 435, align: 'right' as const },
+      { label: 'Montant TTC', x: MARGIN + CONTENT_WIDTH - 4, align: 'right' as const }
+    ];
+    pdf.rect(MARGIN, top, CONTENT_WIDTH, 18, [243, 244, 246]);
+    costColumns.forEach(c => pdf.text(c.label, c.x, top + 4, { size: 9, bold: true, align: c.align }));
+    top += 22;
+    costs.lines.forEach(line => {
+      ensureSpace(18);
+      const waste = line.wastePercent > 0 ? ` (+${formatPercent(line.wastePercent)})` : '';
+      const values = [
+        line.layer.name,
+        `${formatNumber(line.billedQuantity, line.decimals)} ${line.unit}${waste}`,
+        formatCurrency(line.unitPrice),
+        formatCurrency(line.amountHT),
+        formatPercent(line.vatRate),
+        formatCurrency(line.amountTTC)
+      ];
+      costColumns.forEach((c, i) => pdf.text(values[i], c.x, top, { size: 9, align: c.align }));
+      top += 14;
+      pdf.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top);
+      top += 4;
+    });
+    const totals: [string, number, boolean][] = [
+      ['Total HT', costs.totalHT, true],
+      ...costs.vatLines.map(v => [`TVA ${formatPercent(v.rate)}`, v.vat, false] as [string, number, boolean]),
+      ['Total TTC', costs.totalTTC, true]
+    ];
+    top += 4;
+    totals.forEach(([label, amount, bold]) => {
+      ensureSpace(14);
+      pdf.text(label, MARGIN + 395, top, { size: 9, bold, align: 'right' });
+      pdf.text(formatCurrency(amount), MARGIN + CONTENT_WIDTH - 4, top, { size: 9, bold, align: 'right' });
+      top += 14;
+    });
+    top += 16;
+  }
+
+  // --- Map snapshots, one per visible layer ---
+  const snapshotLayers = layers.filter(l => isLayerDisplayed(l, groups) && shapes.some(s => s.layerId === l.id));
+  if (snapshotLayers.length > 0) heading('Plans');
+  const imageHeight = CONTENT_WIDTH * 0.6;
+  for (const layer of snapshotLayers) {
+    const layerShapes = shapes.filter(s => s.layerId === layer.id);
+    const isMeasurement = layer.category === 'measurement';
+    const snapshot = await renderLayerSnapshot(layer, layerShapes, {
+      tiles,
+      formatLabel: shape => isMeasurement ? `${shape.name} (${formatQuantity(shape.measuredValue, layerQuantityKind(layer), resolveUnitSettings(units, layer))})` : shape.name
+    });
+    if (!snapshot) continue;
+    ensureSpace(imageHeight + 30);
+    pdf.text(layer.name, MARGIN, top, { size: 11, bold: true });
+    if (isMeasurement) {
+      pdf.text(`Total : ${formatTotal(layer)}`, MARGIN + CONTENT_WIDTH, top, { size: 10, align: 'right' });
+    }
+    top += 18;
+    pdf.image(jpegFromDataUrl(snapshot.dataUrl, snapshot.width, snapshot.height), MARGIN, top, CONTENT_WIDTH, imageHeight);
+    top += imageHeight + 16;
+  }
+
+  // --- AI analysis ---
+  if (analysis && analysis.trim()) {
+    heading('Analyse IA');
+    wrapText(stripMarkdown(analysis), CONTENT_WIDTH, 9).forEach(lineText => {
+      ensureSpace(13);
+      pdf.text(lineText, MARGIN, top, { size: 9 });
+      top += 13;
+    });
+  }
+
+  return pdf.toBytes();
+};
@@ -0,0 +1,103 @@
+import { GeoPoint, Shape, SnapSettings } from "../types";
+
+// Snapping of drawn points to existing geometry, computed in screen pixels
+
+export interface SnapTarget {
+  point: GeoPoint;
+  kind: 'vertex' | 'edge';
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: true,
+  vertices: true,
+  edges: true,
+  reference: true,
+  tolerance: 12
+};
+
+const SNAP_SETTINGS_KEY = 'metremaster:snapSettings';
+
+export const loadSnapSettings = (): SnapSettings => {
+  try {
+    const raw = localStorage.getItem(SNAP_SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SNAP_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SNAP_SETTINGS;
+  } catch {
+    return DEFAULT_SNAP_SETTINGS;
+  }
+};
+
+export const saveSnapSettings = (settings: SnapSettings) => {
+  try {
+    localStorage.setItem(SNAP_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage may be disabled (private mode); settings then last for the session
+  }
+};
+
+// Rings and paths of a shape as point sequences; polygon rings wrap around
+const shapeParts = (shape: Shape): { points: GeoPoint[]; closed: boolean }[] => {
+  if (shape.type === 'polygon') return [shape.points, ...(shape.holes || [])].map(points => ({ points, closed: true }));
+  return [{ points: shape.points, closed: false }];
+};
+
+interface Candidate {
+  point: GeoPoint;
+  distance: number;
+}
+
+// Closest snap target within tolerance: vertices win over edges
+export const findSnapTarget = (
+  cursor: PixelPoint,
+  shapes: Shape[],
+  extraVertices: GeoPoint[],
+  toPixel: (p: GeoPoint) => PixelPoint,
+  settings: SnapSettings
+): SnapTarget | null => {
+  if (!settings.enabled) return null;
+  const tolerance = settings.tolerance;
+
+  if (settings.vertices) {
+    let best: Candidate | null = null;
+    const candidates = [...shapes.flatMap(s => shapeParts(s).flatMap(part => part.points)), ...extraVertices];
+    for (const point of candidates) {
+      const px = toPixel(point);
+      const distance = Math.hypot(px.x - cursor.x, px.y - cursor.y);
+      if (distance <= tolerance && (!best || distance < best.distance)) best = { point, distance };
+    }
+    if (best) return { point: best.point, kind: 'vertex' };
+  }
+
+  if (settings.edges) {
+    let best: Candidate | null = null;
+    for (const shape of shapes) {
+      if (shape.type === 'point') continue;
+      for (const { points, closed } of shapeParts(shape)) {
+        const segmentCount = closed ? points.length : points.length - 1;
+        for (let i = 0; i < segmentCount; i++) {
+          const a = points[i];
+          const b = points[(i + 1) % points.length];
+          const pa = toPixel(a);
+          const pb = toPixel(b);
+          const dx = pb.x - pa.x;
+          const dy = pb.y - pa.y;
+          const lengthSq = dx * dx + dy * dy;
+          if (lengthSq === 0) continue;
+          const t = Math.max(0, Math.min(1, ((cursor.x - pa.x) * dx + (cursor.y - pa.y) * dy) / lengthSq));
+          const distance = Math.hypot(pa.x + t * dx - cursor.x, pa.y + t * dy - cursor.y);
+          if (distance <= tolerance && (!best || distance < best.distance)) {
+            // Linear interpolation is exact enough at drawing scales
+            best = { point: { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) }, distance };
+          }
+        }
+      }
+    }
+    if (best) return { point: best.point, kind: 'edge' };
+  }
+
+  return null;
+};
@@ -0,0 +1,113 @@
+import { AreaUnit, Layer, LengthUnit, RoundingMode, Shape, UnitSettings } from "../types";
+
+// Unit conversion, rounding and display of quantities.
+// Shapes always store metres / square metres; conversion happens on display and export.
+
+export type QuantityKind = 'length' | 'area';
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; name: string; perMeter: number }> = {
+  m: { label: 'm', name: 'Mètre', perMeter: 1 },
+  cm: { label: 'cm', name: 'Centimètre', perMeter: 100 },
+  km: { label: 'km', name: 'Kilomètre', perMeter: 0.001 },
+  ft: { label: 'ft', name: 'Pied', perMeter: 1 / 0.3048 }
+};
+
+export const AREA_UNITS: Record<AreaUnit, { label: string; name: string; perSquareMeter: number }> = {
+  m2: { label: 'm²', name: 'Mètre carré', perSquareMeter: 1 },
+  a: { label: 'a', name: 'Are', perSquareMeter: 0.01 },
+  ha: { label: 'ha', name: 'Hectare', perSquareMeter: 0.0001 },
+  ft2: { label: 'ft²', name: 'Pied carré', perSquareMeter: 1 / 0.09290304 }
+};
+
+export const ROUNDING_MODES: Record<RoundingMode, string> = {
+  nearest: 'Au plus proche',
+  up: 'Par excès',
+  down: 'Par défaut'
+};
+
+export const MAX_DECIMALS = 4;
+
+export const DEFAULT_UNIT_SETTINGS: UnitSettings = {
+  lengthUnit: 'm',
+  areaUnit: 'm2',
+  decimals: 2,
+  rounding: 'nearest'
+};
+
+// Project settings with the layer's overrides applied
+export const resolveUnitSettings = (project: Partial<UnitSettings> | undefined, layer?: Layer): UnitSettings => ({
+  ...DEFAULT_UNIT_SETTINGS,
+  ...project,
+  ...layer?.units
+});
+
+export const layerQuantityKind = (layer: Layer): QuantityKind => layer.type === 'surface' ? 'area' : 'length';
+export const shapeQuantityKind = (shape: Shape): QuantityKind => shape.type === 'polygon' ? 'area' : 'length';
+
+export const unitLabel = (kind: QuantityKind, settings: UnitSettings) =>
+  kind === 'area' ? AREA_UNITS[settings.areaUnit].label : LENGTH_UNITS[settings.lengthUnit].label;
+
+export const convertQuantity = (baseValue: number, kind: QuantityKind, settings: UnitSettings) =>
+  baseValue * (kind === 'area' ? AREA_UNITS[settings.areaUnit].perSquareMeter : LENGTH_UNITS[settings.lengthUnit].perMeter);
+
+// Display units per base unit (m² or m)
+export const unitFactor = (kind: QuantityKind, settings: UnitSettings) => convertQuantity(1, kind, settings);
+
+// Unit price per display unit from a price per base unit, and back; noise is stripped for display
+export const toDisplayPrice = (basePrice: number, kind: QuantityKind, settings: UnitSettings) =>
+  Math.round(basePrice / unitFactor(kind, settings) * 1e6) / 1e6;
+export const toBasePrice = (displayPrice: number, kind: QuantityKind, settings: UnitSettings) =>
+  displayPrice * unitFactor(kind, settings);
+
+export const roundQuantity = (value: number, settings: UnitSettings) => {
+  const factor = Math.pow(10, settings.decimals);
+  // Strip floating point noise first so that 1.10 does not round up to 1.11
+  const scaled = Math.round(value * factor * 1e6) / 1e6;
+  const rounded = settings.rounding === 'up' ? Math.ceil(scaled) : settings.rounding === 'down' ? Math.floor(scaled) : Math.round(scaled);
+  return rounded / factor;
+};
+
+// Value as displayed and exported: converted to the display unit, then rounded
+export const toDisplayValue = (baseValue: number, kind: QuantityKind, settings: UnitSettings) =>
+  roundQuantity(convertQuantity(baseValue, kind, settings), settings);
+
+// Totals are the sum of the rounded lines, as on a written bill of quantities
+export const sumDisplayValues = (values: number[], settings: UnitSettings) =>
+  Math.round(values.reduce((sum, v) => sum + v, 0) * Math.pow(10, settings.decimals)) / Math.pow(10, settings.decimals);
+
+export const layerTotal = (layer: Layer, shapes: Shape[], settings: UnitSettings) =>
+  sumDisplayValues(
+    shapes.filter(s => s.layerId === layer.id && s.type !== 'point').map(s => toDisplayValue(s.measuredValue, layerQuantityKind(layer), settings)),
+    settings
+  );
+
+export const formatNumber = (value: number, decimals = DEFAULT_UNIT_SETTINGS.decimals) =>
+  value.toLocaleString('fr-FR', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+// Display value (already converted and rounded) with its unit
+export const formatDisplayValue = (value: number, kind: QuantityKind, settings: UnitSettings) =>
+  `${formatNumber(value, settings.decimals)} ${unitLabel(kind, settings)}`;
+
+export const formatQuantity = (baseValue: number, kind: QuantityKind, settings: UnitSettings = DEFAULT_UNIT_SETTINGS) =>
+  formatDisplayValue(toDisplayValue(baseValue, kind, settings), kind, settings);
+
+export const formatLength = (meters: number, settings?: UnitSettings) => formatQuantity(meters, 'length', settings);
+export const formatArea = (squareMeters: number, settings?: UnitSettings) => formatQuantity(squareMeters, 'area', settings);
+
+// Number typed by the user, decimal comma accepted
+export const parseDecimal = (value: string): number | null => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Keeps the valid fields of stored settings (project files may be hand-edited)
+export const sanitizeUnitSettings = (raw: unknown): Partial<UnitSettings> => {
+  if (typeof raw !== 'object' || raw === null) return {};
+  const value = raw as Record<string, unknown>;
+  const settings: Partial<UnitSettings> = {};
+  if (typeof value.lengthUnit === 'string' && value.lengthUnit in LENGTH_UNITS) settings.lengthUnit = value.lengthUnit as LengthUnit;
+  if (typeof value.areaUnit === 'string' && value.areaUnit in AREA_UNITS) settings.areaUnit = value.areaUnit as AreaUnit;
+  if (Number.isInteger(value.decimals) && (value.decimals as number) >= 0 && (value.decimals as number) <= MAX_DECIMALS) settings.decimals = value.decimals as number;
+  if (typeof value.rounding === 'string' && value.rounding in ROUNDING_MODES) settings.rounding = value.rounding as RoundingMode;
+  return settings;
+};
@@ -2,10 +2,31 @@
 export enum ToolMode {
   SELECT = 'SELECT',
   DRAW_POLYGON = 'DRAW_POLYGON',
-  DRAW_LINE = 'DRAW_LINE'
+  DRAW_LINE = 'DRAW_LINE',
+  DRAW_HOLE = 'DRAW_HOLE', // Cut an inner ring into the selected polygon
+  DRAW_RECTANGLE = 'DRAW_RECTANGLE', // Base edge (2 clicks) + width (3rd click)
+  DRAW_CIRCLE = 'DRAW_CIRCLE', // Center + radius
+  DRAW_CORRIDOR = 'DRAW_CORRIDOR', // Centerline + width, stored as a polygon
+  DRAW_SPLIT = 'DRAW_SPLIT' // Cut line across the selected shape
 }
 
-export type BaseLayer = 'plan' | 'satellite';
+// Id of a registered tile source ('plan' and 'satellite' are built in)
+export type BaseLayer = string;
+
+export type TileSourceKind = 'xyz' | 'wmts' | 'wms' | 'mbtiles';
+
+export interface TileSourceConfig {
+  id: string;
+  name: string;
+  kind: TileSourceKind;
+  url: string; // XYZ or WMTS template, WMS endpoint; unused for MBTiles
+  attribution: string;
+  maxZoom: number; // Deepest zoom served by the source, tiles are upscaled beyond
+  overlay?: boolean; // Drawn over the base map instead of replacing it
+  wmsLayers?: string;
+  wmsFormat?: string; // Defaults to image/png
+  builtIn?: boolean;
+}
 
 export interface GeoPoint {
   lat: number;
@@ -15,10 +36,15 @@ export interface GeoPoint {
 export interface Shape {
   id: string;
   name: string; // Added name for user identification
-  type: 'polygon' | 'polyline';
+  type: 'polygon' | 'polyline' | 'point'; // Points only come from imported reference layers
   points: GeoPoint[];
+  holes?: GeoPoint[][]; // Inner rings (polygons only), deducted from the area
   layerId: string;
-  measuredValue: number; // Area in m² or Length in m
+  measuredValue: number; // Net area in m² or Length in m (0 for points)
+  description?: string;
+  tags?: string[];
+  lot?: string; // Lot / trade code (e.g. "02 Gros œuvre")
+  attributes?: Record<string, string>; // Free key/value pairs
 }
 
 export interface Layer {
@@ -29,10 +55,85 @@ export interface Layer {
   category: 'measurement' | 'kml';
   isVisible: boolean;
   opacity: number;
+  units?: Partial<UnitSettings>; // Overrides of the project's unit settings
+  pricing?: LayerPricing;
+  derived?: DerivedQuantity;
+  groupId?: string; // Enclosing group: a lot, or a folder of an imported KML
+}
+
+// Folder of measurement layers, typically a lot (gros œuvre, second œuvre, VRD...)
+export interface LayerGroup {
+  id: string;
+  name: string;
+  parentId?: string; // Nested inside another group
+  isVisible: boolean; // Hides every layer and sub-group it contains
+}
+
+export interface LayerPricing {
+  unitPrice: number; // € HT per m² (surface layers) or per m (linear layers), whatever the display unit
+  wastePercent: number; // Added to the measured quantity
+  vatRate: number; // Percent
+}
+
+export type DerivedFormula = 'height' | 'thickness' | 'coverage' | 'multiplier';
+export type DerivedUnit = 'm' | 'm2' | 'm3' | 'u' | 'l';
+
+// Quantity computed from the layer's measured total (e.g. wall area = length × height)
+export interface DerivedQuantity {
+  label: string;
+  formula: DerivedFormula;
+  parameter: number; // Height or thickness in m, quantity covered per unit, or plain multiplier
+  unit: DerivedUnit;
+}
+
+export type LengthUnit = 'm' | 'cm' | 'km' | 'ft';
+export type AreaUnit = 'm2' | 'a' | 'ha' | 'ft2';
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+export interface UnitSettings {
+  lengthUnit: LengthUnit;
+  areaUnit: AreaUnit;
+  decimals: number;
+  rounding: RoundingMode;
 }
 
 export interface ProjectState {
   layers: Layer[];
   shapes: Shape[];
   activeLayerId: string | null;
+  units?: UnitSettings; // Defaults to m / m², 2 decimals
+  groups?: LayerGroup[];
+}
+
+export interface SnapSettings {
+  enabled: boolean;
+  vertices: boolean;
+  edges: boolean;
+  reference: boolean; // Also snap to imported KML / GeoJSON layers
+  tolerance: number; // Pixels
+}
+
+export type GeocoderProviderId = 'ban' | 'nominatim';
+
+export interface GeocoderSettings {
+  provider: GeocoderProviderId;
+  baseUrl: string; // Empty for the provider's public API, or a compatible local service
 }
+
+export interface MapSettings {
+  center: GeoPoint;
+  zoom: number;
+  baseLayer: BaseLayer;
+  overlays?: string[]; // Tile sources drawn over the base map, bottom first
+}
+
+export interface StoredProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  state: ProjectState;
+  map: MapSettings;
+}
+
+export type ProjectSummary = Pick<StoredProject, 'id' | 'name' | 'createdAt' | 'updatedAt'>;